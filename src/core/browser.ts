@@ -1,5 +1,6 @@
-import { MemoryVectorParser, MemoryVectorStore, MemoryVectorStoreOptions } from '../interface';
+import { BrowserMemoryVectorStoreOptions, MemoryVectorParser, MemoryVectorStore } from '../interface';
 import { BrowserStorageProvider } from '../storage/browser-local-storage';
+import { IndexedDBStorageProvider } from '../storage/browser-indexed-db';
 import { VectorStore } from './vector-store';
 
 /**
@@ -11,7 +12,7 @@ import { VectorStore } from './vector-store';
  * @param {MemoryVectorParser} vectorParser - A function that converts text to a vector representation.
  *                                 Can return either a Promise<number[]> for async processing
  *                                 or number[] for synchronous processing.
- * @param {Partial<MemoryVectorStoreOptions>} [options] - Optional configuration options.
+ * @param {Partial<BrowserMemoryVectorStoreOptions>} [options] - Optional configuration options.
  *                                                      Partial override of default settings.
  * @returns {VectorStore} A configured vector store instance ready for use in browser environments.
  *
@@ -28,6 +29,10 @@ import { VectorStore } from './vector-store';
  *   }
  * );
  *
+ * // Keep larger stores in IndexedDB, waiting for the data to load
+ * const vectorStore = MemoryVectorStore(parser, { storage: 'indexedDB' });
+ * await vectorStore.ready();
+ *
  * // Add data to the store
  * await vectorStore.add('Sample text data');
  *
@@ -38,28 +43,49 @@ import { VectorStore } from './vector-store';
  * Default options:
  * - autoSave: true - Automatically saves changes to storage
  * - debug: false - Debug logging is disabled by default
- * - maxFileSizeMB: 3 - Limited to 3MB due to browser localStorage constraints
- * - storagePath: 'memory-vector-store' - Default storage key used in localStorage
+ * - format: 'json' - Use 'binary' for a compact header + Float32/Float16 vector block format
+ * - maxFileSizeMB: 3 - Limited to 3MB due to browser localStorage constraints (500MB with IndexedDB or a custom provider)
+ * - storage: 'localStorage' - Built-in backend, 'indexedDB' for larger stores
+ * - storagePath: 'memory-vector-store' - Default storage key used in localStorage or IndexedDB
  *
- * Note: maxFileSizeMB is clamped between 0.1MB and 3MB for browser environments
- * due to localStorage limitations.
+ * Note: maxFileSizeMB is clamped between 0.1MB and 3MB with localStorage
+ * due to its limitations, and up to 1000MB with IndexedDB. A custom storageProvider is not clamped.
  */
 export function browserMemoryVectorStore<Metadata extends Record<string, any> = Record<string, any>>(
   vectorParser: MemoryVectorParser,
-  options?: Partial<MemoryVectorStoreOptions>
+  options?: Partial<BrowserMemoryVectorStoreOptions>
 ): MemoryVectorStore<Metadata> {
-  const defaultOptions: MemoryVectorStoreOptions = {
+  const indexedDB = options?.storage === 'indexedDB';
+  const storageProvider =
+    options?.storageProvider ??
+    (indexedDB
+      ? new IndexedDBStorageProvider()
+      : new BrowserStorageProvider({ format: options?.format, precision: options?.precision }));
+  // Only the built-in providers have known quotas
+  const localStorage = storageProvider instanceof BrowserStorageProvider;
+  const defaultOptions: BrowserMemoryVectorStoreOptions = {
     autoSave: true,
     debug: false,
-    maxFileSizeMB: 3,
+    maxFileSizeMB: localStorage ? 3 : 500,
     storagePath: 'memory-vector-store',
     ...options,
   };
 
-  defaultOptions.maxFileSizeMB = Math.max(Math.min(defaultOptions.maxFileSizeMB, 3), 0.1);
+  if (localStorage) {
+    defaultOptions.maxFileSizeMB = Math.max(Math.min(defaultOptions.maxFileSizeMB, 3), 0.1);
+  } else if (storageProvider instanceof IndexedDBStorageProvider) {
+    defaultOptions.maxFileSizeMB = Math.max(Math.min(defaultOptions.maxFileSizeMB, 1000), 0.1);
+  }
 
-  return new VectorStore(vectorParser, new BrowserStorageProvider(), defaultOptions);
+  return new VectorStore(vectorParser, storageProvider, defaultOptions);
 }
 
-export { doc } from './vector-store';
+export { doc, documentId } from './vector-store';
+export { cachedVectorParser } from './embedding-cache';
+export { BrowserStorageProvider } from '../storage/browser-local-storage';
+export { IndexedDBStorageProvider } from '../storage/browser-indexed-db';
+export { matchesFilter } from '../shared/filter';
+export { recursiveCharacterSplitter, sentenceSplitter, markdownHeadingSplitter } from '../shared/splitter';
+export { defaultTokenizer } from '../search/bm25';
+export * from '../shared/errors';
 export * from '../interface';
@@ -0,0 +1,143 @@
+import {
+  MemoryEmbeddingCacheOptions,
+  MemoryEmbeddingCacheStats,
+  MemoryCachedVectorParser,
+  MemoryVectorDataSerialize,
+  MemoryVectorParser,
+} from '../interface';
+import { debounce, hashString } from '../shared/util';
+
+/**
+ * Approximate in-memory size of a cached vector: 8 bytes per number plus the key and entry overhead.
+ */
+const entrySize = (key: string, vector: number[]): number => vector.length * 8 + key.length * 2 + 64;
+
+/**
+ * Copies a vector handed out by the cache, so callers changing it cannot change the cached one.
+ */
+const copyOf = <V>(vector: V): V => (Array.isArray(vector) ? (vector.slice() as V) : vector);
+
+/**
+ * Wraps a vector parser with an LRU cache keyed by model id and content hash,
+ * so re-embedding the same text (re-indexing, repeated queries, other stores) costs no API call.
+ *
+ * @function cachedVectorParser
+ * @param {MemoryVectorParser} vectorParser - The parser to cache
+ * @param {MemoryEmbeddingCacheOptions} options - Model id, memory limits and optional persistence
+ * @returns {MemoryCachedVectorParser} A parser usable anywhere a MemoryVectorParser is expected
+ *
+ * @example
+ * const parser = cachedVectorParser(openAiParser, {
+ *   modelId: 'text-embedding-3-small',
+ *   maxEntries: 50_000,
+ *   storage: new NodeStorageProvider(),
+ *   storageKey: './data/embedding-cache.json',
+ * });
+ * const store = memoryVectorStore(parser);
+ *
+ * console.log(parser.stats()); // { hits, misses, size, memoryBytes }
+ */
+export function cachedVectorParser(
+  vectorParser: MemoryVectorParser,
+  options: MemoryEmbeddingCacheOptions
+): MemoryCachedVectorParser {
+  const maxEntries = options.maxEntries ?? 10000;
+  const maxMemoryBytes = (options.maxMemoryMB ?? 100) * 1024 * 1024;
+  const entries = new Map<string, number[]>();
+  const pending = new Map<string, Promise<number[]>>();
+  const stats = { hits: 0, misses: 0, memoryBytes: 0 };
+
+  const keyOf = (content: string) => `${options.modelId}:${hashString(content)}${hashString(content, 1)}`;
+
+  const evict = () => {
+    while (entries.size > maxEntries || (stats.memoryBytes > maxMemoryBytes && entries.size > 0)) {
+      const [key, vector] = entries.entries().next().value!;
+      entries.delete(key);
+      stats.memoryBytes -= entrySize(key, vector);
+    }
+  };
+
+  const set = (key: string, vector: number[]) => {
+    const previous = entries.get(key);
+    if (previous) {
+      entries.delete(key);
+      stats.memoryBytes -= entrySize(key, previous);
+    }
+    entries.set(key, vector);
+    stats.memoryBytes += entrySize(key, vector);
+    evict();
+  };
+
+  const save = async () => {
+    if (!options.storage || !options.storageKey) return;
+    await ready;
+    const data: MemoryVectorDataSerialize[] = Array.from(entries, ([key, vector]) => [key, vector]);
+    await options.storage.save(options.storageKey, data);
+  };
+
+  const scheduleSave = () => {
+    if (!options.storage || !options.storageKey || options.autoSave === false) return;
+    debounce(`embedding-cache:${options.storageKey}`, save, 100);
+  };
+
+  const load = async () => {
+    if (!options.storage || !options.storageKey) return;
+    if (!(await options.storage.exists(options.storageKey))) return;
+    const data = await options.storage.load(options.storageKey);
+    for (const [key, vector] of Array.isArray(data) ? data : data.items) {
+      // Vectors computed while loading are newer than the persisted ones
+      if (!entries.has(key)) set(key, vector);
+    }
+  };
+
+  const ready = load().catch((error) => {
+    console.error('Error loading embedding cache:', error);
+  });
+
+  const parser = (async (content: string) => {
+    await ready;
+    const key = keyOf(content);
+    const cached = entries.get(key);
+    if (cached) {
+      stats.hits++;
+      // Re-insert to mark the entry as most recently used
+      entries.delete(key);
+      entries.set(key, cached);
+      return cached.slice();
+    }
+
+    const inFlight = pending.get(key);
+    if (inFlight) {
+      stats.hits++;
+      return copyOf(await inFlight);
+    }
+
+    stats.misses++;
+    const promise = Promise.resolve(vectorParser(content)).then((vector) => {
+      if (Array.isArray(vector)) {
+        set(key, vector.slice());
+        scheduleSave();
+      }
+      return vector;
+    });
+    pending.set(key, promise);
+    try {
+      return await promise;
+    } finally {
+      pending.delete(key);
+    }
+  }) as MemoryCachedVectorParser;
+
+  parser.stats = (): MemoryEmbeddingCacheStats => ({ ...stats, size: entries.size });
+  parser.clear = () => {
+    entries.clear();
+    stats.hits = 0;
+    stats.misses = 0;
+    stats.memoryBytes = 0;
+    scheduleSave();
+  };
+  parser.ready = () => ready;
+  parser.save = save;
+
+  return parser;
+}
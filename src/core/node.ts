@@ -39,6 +39,8 @@ import { MemoryVectorParser, MemoryVectorStore, MemoryVectorStoreOptions } from
  * Default options:
  * - autoSave: true - Automatically saves changes to storage
  * - debug: false - Debug logging is disabled by default
+ * - format: 'json' - Use 'binary' for a compact header + Float32/Float16 vector block format
+ * - log: false - Set to append changes to '{storagePath}.log' instead of rewriting the file on each save
  * - maxFileSizeMB: 500 - Default file size limit of 500MB
  * - storagePath: '{cwd}/node_modules/__mvsl__/data.json' - Default file path for stored data
  *
@@ -59,9 +61,25 @@ export function memoryVectorStore<Metadata extends Record<string, any> = Record<
   };
 
   defaultOptions.maxFileSizeMB = Math.max(Math.min(defaultOptions.maxFileSizeMB, 1000), 1);
-  return new VectorStore(vectorParser, new NodeStorageProvider(), defaultOptions);
+  return new VectorStore(
+    vectorParser,
+    defaultOptions.storageProvider ??
+      new NodeStorageProvider({
+        format: defaultOptions.format,
+        precision: defaultOptions.precision,
+        log: defaultOptions.log,
+        lock: defaultOptions.lock,
+      }),
+    defaultOptions
+  );
 }
 
-export { doc } from './vector-store';
+export { doc, documentId } from './vector-store';
+export { cachedVectorParser } from './embedding-cache';
+export { NodeStorageProvider } from '../storage/node-file-storage';
+export { matchesFilter } from '../shared/filter';
+export { recursiveCharacterSplitter, sentenceSplitter, markdownHeadingSplitter } from '../shared/splitter';
+export { defaultTokenizer } from '../search/bm25';
+export * from '../shared/errors';
 
 export * from '../interface';
@@ -1,30 +1,341 @@
-import { Locker, debounce } from '../shared/util';
 import {
+  DimensionMismatchError,
+  DocumentIdConflictError,
+  InvalidVectorError,
+  MemoryVectorStoreError,
+  MetricMismatchError,
+  ModelMismatchError,
+  StoreClosedError,
+  StoreCorruptedError,
+  StoreFullError,
+} from '../shared/errors';
+import { compileFilter } from '../shared/filter';
+import {
+  ResolvedMetric,
+  compareScores,
+  cosineSimilarity,
+  isBuiltinMetric,
+  meetsThreshold,
+  resolveMetric,
+} from '../shared/metric';
+import {
+  AnyVector,
+  ResolvedQuantization,
+  StoredVector,
+  dequantize,
+  fromCodes,
+  quantize,
+  resolveQuantization,
+  scoreFullPrecision,
+  scoreVectors,
+  serializeVector,
+  toDistance,
+} from '../shared/quantization';
+import { ArenaVector, VectorArena, arenaScorer } from '../shared/arena';
+import { HnswIndex, HnswOptions } from '../search/hnsw';
+import { maximalMarginalRelevance } from '../search/mmr';
+import { Bm25Index, defaultTokenizer } from '../search/bm25';
+import { normalizeScores, reciprocalRankFusion } from '../search/fusion';
+import { BinaryHeap } from '../shared/heap';
+import { EventEmitter } from '../shared/events';
+import { chunkOffsets, textSplitters } from '../shared/splitter';
+import { byteLength, chunkArray, hashString, isPromise, parallel } from '../shared/util';
+import {
+  MemoryChunkInfo,
+  MemoryVectorAddDocumentOptions,
+  MemoryVectorAddDocumentResult,
+  MemoryVectorAddManyOptions,
+  MemoryVectorAddOptions,
+  MemoryVectorAddManyResult,
   MemoryVectorData,
   MemoryVectorDataSerialize,
+  MemoryVectorEntryAttributes,
+  MemoryVectorItemAttributes,
+  MemoryVectorEvictionPolicy,
   MemoryVectorParser,
+  MemoryVectorBatchParser,
+  MemoryVectorQuantizationType,
   MemoryVectorStorageProvider,
   MemoryVectorStoreOptions,
   MemoryVectorStore,
   MemoryDocument,
+  MemoryDocumentPatch,
+  MemoryVectorMMRSearchOptions,
+  MemoryVectorParentSearchOptions,
+  MemoryVectorParentSearchResult,
+  MemoryVectorReembedOptions,
+  MemoryVectorSearchFilter,
+  MemoryVectorSearchOptions,
+  MemoryVectorSearchResult,
+  MemoryVectorHybridSearchOptions,
+  MemoryVectorHybridSearchResult,
+  MemoryVectorIndexOptions,
+  MemoryVectorIndexSnapshot,
+  MemoryVectorLexicalOptions,
+  MemoryVectorLexicalSnapshot,
+  MemoryVectorLogOperation,
+  MemoryVectorMetricName,
+  MemoryVectorSnapshot,
+  MemoryVectorStoreData,
+  MemoryVectorStoreEvents,
 } from '../interface';
 
-export function doc<T>(content: string, metadata?: T): MemoryDocument<T> {
+export function doc<T>(content: string, metadata?: T, id?: string): MemoryDocument<T> {
+  const document: MemoryDocument<T> = {
+    content,
+    metadata,
+  };
+  if (id !== undefined) document.id = id;
+  return document;
+}
+
+/**
+ * Id used for documents added without an explicit one.
+ * Derived from the content so re-adding the same text keeps replacing the same entry.
+ */
+export function documentId(content: string): string {
+  return hashString(content);
+}
+
+const chunkId = (parentId: string, index: number) => `${parentId}#${index}`;
+
+const hasExplicitId = (document: string | MemoryDocument<unknown>): boolean =>
+  typeof document !== 'string' && document.id !== undefined;
+
+const chunkOf = (metadata: unknown): MemoryChunkInfo | undefined =>
+  (metadata as { chunk?: MemoryChunkInfo } | null | undefined)?.chunk;
+
+const parentIdOf = (entry: StoreEntry<unknown>): string | undefined => chunkOf(entry.metadata)?.parentId;
+
+const toDocument = <T>(document: string | MemoryDocument<T>): MemoryDocument<T> =>
+  typeof document === 'string'
+    ? doc<T>(document, undefined, documentId(document))
+    : doc(document.content, document.metadata, document.id ?? documentId(document.content));
+
+interface StoreEntry<T> extends MemoryVectorEntryAttributes {
+  content: string;
+  metadata?: T;
+  vector: StoredVector;
+}
+
+/**
+ * Builds the entry stored for a document, keeping the bookkeeping of the entry it replaces.
+ */
+const createEntry = <T>(
+  previous: StoreEntry<T> | undefined,
+  content: string,
+  metadata: T | undefined,
+  vector: StoredVector,
+  expiresAt: number | undefined
+): StoreEntry<T> => {
+  const now = Date.now();
   return {
     content,
     metadata,
+    vector,
+    createdAt: previous?.createdAt ?? now,
+    accessedAt: previous?.accessedAt ?? now,
+    hits: previous?.hits ?? 0,
+    expiresAt,
+  };
+};
+
+const serializeItem = <T>([id, entry]: [string, StoreEntry<T>]): MemoryVectorDataSerialize => {
+  const [vector, scale] = serializeVector(entry.vector);
+  const attributes: MemoryVectorItemAttributes = {
+    createdAt: entry.createdAt,
+    accessedAt: entry.accessedAt,
+    hits: entry.hits,
   };
+  if (entry.expiresAt !== undefined) attributes.expiresAt = entry.expiresAt;
+  if (scale !== undefined) attributes.scale = scale;
+  return [entry.content, vector, entry.metadata, id, attributes];
+};
+
+/**
+ * @param restore - Turns the saved vector into the stored one, given the scale saved with quantized vectors
+ */
+const deserializeItem = <T>(
+  item: MemoryVectorDataSerialize,
+  restore: (vector: number[], scale: number | undefined) => StoredVector
+): [string, StoreEntry<T>] => {
+  // Items saved by earlier versions have no attributes, they sort as added before everything else
+  const { createdAt = 0, accessedAt = createdAt, hits = 0, expiresAt, scale } = item[4] ?? {};
+  return [
+    item[3] ?? documentId(item[0]),
+    { content: item[0], vector: restore(item[1], scale), metadata: item[2], createdAt, accessedAt, hits, expiresAt },
+  ];
+};
+
+/**
+ * Separates the collection name from the document id in store keys.
+ * Documents of the default collection are keyed by their id alone, as in stores without collections.
+ */
+const COLLECTION_SEPARATOR = '\u0000';
+
+const storeKey = (collection: string | undefined, id: string): string =>
+  collection === undefined ? id : `${collection}${COLLECTION_SEPARATOR}${id}`;
+
+const splitKey = (key: string): [collection: string | undefined, id: string] => {
+  const index = key.indexOf(COLLECTION_SEPARATOR);
+  return index === -1 ? [undefined, key] : [key.slice(0, index), key.slice(index + 1)];
+};
+
+const entryDocument = <T>(key: string, entry: StoreEntry<T>): MemoryDocument<T> => ({
+  id: splitKey(key)[1],
+  content: entry.content,
+  metadata: entry.metadata,
+});
+
+const entryResult = <T>(key: string, entry: StoreEntry<T>, score: number): MemoryVectorSearchResult<T> => {
+  const [collection, id] = splitKey(key);
+  const result: MemoryVectorSearchResult<T> = { id, content: entry.content, metadata: entry.metadata, score };
+  if (collection !== undefined) result.collection = collection;
+  return result;
+};
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Data saved by earlier versions is a bare array of items, without a recorded metric.
+ */
+const toSnapshot = (
+  data: MemoryVectorStoreData
+): Partial<MemoryVectorSnapshot> & Pick<MemoryVectorSnapshot, 'items'> =>
+  Array.isArray(data) ? { items: data } : data;
+
+/**
+ * Dimension of snapshots that do not record it, from their first vector. Binary codes hold eight values per number.
+ */
+const savedDimension = (snapshot: ReturnType<typeof toSnapshot>): number | undefined =>
+  snapshot.quantization === 'binary' ? undefined : snapshot.items[0]?.[1].length;
+
+interface ScoredEntry<T> {
+  id: string;
+  entry: StoreEntry<T>;
+  score: number;
+}
+
+/**
+ * Scored entry kept by the top-k heap of an exact search, with its position in the store to break ties.
+ */
+interface RankedEntry<T> extends ScoredEntry<T> {
+  position: number;
+}
+
+/**
+ * Returns the slot of a full-precision vector to its arena, for the next vector to reuse.
+ */
+const releaseVector = (vector: StoredVector): void => {
+  if ('arena' in vector) vector.arena.release(vector);
+};
+
+type EntryPredicate<T> = (id: string, entry: StoreEntry<T>) => boolean;
+
+const hnswOptions = (options: MemoryVectorIndexOptions): HnswOptions => ({
+  M: options.M ?? 16,
+  efConstruction: options.efConstruction ?? 200,
+  efSearch: options.efSearch ?? 50,
+});
+
+/**
+ * Below this share of matching documents, filtered searches skip the index and score the matches directly.
+ */
+const EXACT_SEARCH_SELECTIVITY = 0.1;
+
+const COSINE_METRIC = resolveMetric('cosine');
+
+type EvictionOrder = (a: MemoryVectorEntryAttributes, b: MemoryVectorEntryAttributes) => number;
+
+/**
+ * Comparators of the eviction policies, sorting the entries to evict first before the others.
+ */
+const evictionOrders: Record<Exclude<MemoryVectorEvictionPolicy, 'none'>, EvictionOrder> = {
+  fifo: (a, b) => a.createdAt - b.createdAt,
+  lru: (a, b) => a.accessedAt - b.accessedAt,
+  lfu: (a, b) => a.hits - b.hits || a.accessedAt - b.accessedAt,
+  ttl: (a, b) => (a.expiresAt ?? Infinity) - (b.expiresAt ?? Infinity) || a.createdAt - b.createdAt,
+};
+
+/**
+ * Delay letting changes made in a row go out in a single save.
+ */
+const SAVE_DELAY_MS = 100;
+
+/**
+ * A save waiting for its delay, settled with the result of the write it starts.
+ */
+interface PendingSave {
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Ids of the documents set or deleted since the last save. Their operations are built from the current entries
+ * when saving, so pending changes hold no copies of the vectors.
+ */
+interface PendingChanges {
+  ids: Set<string>;
+  /** Ids of the documents returned since, whose access stats changed */
+  accessed: Set<string>;
+  /** Whether the store was cleared first */
+  cleared: boolean;
 }
 
-const serializeItem = <T>(entry: [string, { metadata?: T; vector: number[] }]): MemoryVectorDataSerialize => [
-  entry[0],
-  entry[1].vector,
-  entry[1].metadata,
-];
+const emptyChanges = (): PendingChanges => ({ ids: new Set(), accessed: new Set(), cleared: false });
+
+/**
+ * Options of `embed`, shared by `addMany` and `reembedAll`.
+ */
+interface EmbedOptions {
+  concurrency?: number;
+  batchParser?: MemoryVectorBatchParser;
+  batchSize?: number;
+  /** Returns the vector when valid, throws otherwise */
+  check: (vector: unknown) => number[];
+  onFailure: (index: number, error: unknown) => void;
+  onProgress?: (done: number) => void;
+}
 
 interface StoreCache<T> {
   dirty: boolean;
-  store: Map<string, { metadata?: T; vector: number[] }>;
+  /** Entries by store key, which prefixes the document id with its collection */
+  store: Map<string, StoreEntry<T>>;
+  /** Number of documents of each named collection */
+  collections: Map<string, number>;
+  /** Shared by the stores of every collection, so changes to any of them join the same save */
+  pendingSave?: PendingSave;
+  /** Save or reload in progress; they never overlap */
+  writing?: Promise<void>;
+  closed: boolean;
+  events: EventEmitter<MemoryVectorStoreEvents<T>>;
+  metric: ResolvedMetric;
+  index?: HnswIndex<AnyVector>;
+  lexical?: Bm25Index;
+  loaded: Promise<void>;
+  loading: boolean;
+  /** Documents changed since the last save, tracked when the storage provider can append them or detect other writers */
+  changes?: PendingChanges;
+  /** Set when the next save has to rewrite the whole snapshot */
+  compact?: boolean;
+  /** Size of the last full save plus the documents appended since, unknown until the first save */
+  savedSize?: number;
+  /** Stops watching the stored data for changes by other processes */
+  unwatch?: () => void;
+  reloadTimer?: ReturnType<typeof setTimeout>;
+  /** Flushes on Node's `beforeExit`, see the `flushOnExit` option */
+  exitHook?: () => void;
+  /** Earliest expiry among the entries, 0 when unknown after loading */
+  nextExpiry: number;
+  /** Length of the stored vectors, taken from the first one when not configured or persisted */
+  dimension?: number;
+  /** Embedding model of the stored vectors */
+  modelId?: string;
+  quantization?: ResolvedQuantization;
+  /** Full-precision vectors of the current dimension, created with the first one */
+  arena?: VectorArena;
 }
 
 const globalCache = new Map<string, StoreCache<any>>();
@@ -38,26 +349,354 @@ const globalCache = new Map<string, StoreCache<any>>();
 export class VectorStore<T = any> implements MemoryVectorStore<T> {
   private cache!: StoreCache<T>;
 
-  private saveLock = new Locker();
+  private loading: Promise<void> = Promise.resolve();
 
+  /**
+   * @param name - Collection the store is scoped to, the default collection when undefined
+   */
   constructor(
     private vectorParser: MemoryVectorParser,
     private storageProvider: MemoryVectorStorageProvider,
-    private options: MemoryVectorStoreOptions
+    private options: MemoryVectorStoreOptions,
+    private name?: string
   ) {
     this.options.storagePath = this.options.storagePath ?? `default`;
-    this.saveLock.unLock();
     this.initializeStore();
   }
 
   private initializeStore(): void {
-    if (globalCache.has(this.options.storagePath)) {
-      this.cache = globalCache.get(this.options.storagePath)!;
+    const key = this.options.storagePath;
+    if (globalCache.has(key)) {
+      this.cache = globalCache.get(key)!;
+    } else {
+      this.cache = {
+        dirty: false,
+        store: new Map(),
+        collections: new Map(),
+        closed: false,
+        events: new EventEmitter(),
+        metric: resolveMetric(this.options.metric ?? 'cosine'),
+        loaded: Promise.resolve(),
+        loading: false,
+        changes: this.storageProvider.append || this.storageProvider.changed ? emptyChanges() : undefined,
+        nextExpiry: Infinity,
+        dimension: this.options.dimension,
+        modelId: this.options.modelId,
+        quantization: resolveQuantization(this.options.quantization),
+      };
+      const loading = this.load();
+      if (loading) {
+        const cache = this.cache;
+        cache.loading = true;
+        cache.loaded = loading.finally(() => {
+          cache.loading = false;
+        });
+        cache.loaded.catch(() => {
+          // Let the next store created for this path try again
+          if (globalCache.get(key) === cache) globalCache.delete(key);
+        });
+      }
+      globalCache.set(key, this.cache);
+      if (this.options.flushOnExit && typeof process !== 'undefined' && typeof process.on === 'function') {
+        this.cache.exitHook = () => {
+          // Failures are reported through onError and the error event
+          this.flush().catch(() => {});
+        };
+        process.on('beforeExit', this.cache.exitHook);
+      }
+    }
+
+    const prepare = () => {
+      this.checkMetric(this.cache.metric.name);
+      this.buildIndex();
+      if (this.options.lexical) this.buildLexicalIndex();
+      this.enforceDocumentLimit();
+      if (this.options.watch && this.storageProvider.watch && !this.cache.unwatch) this.watchStorage();
+    };
+    if (this.cache.loading) {
+      this.loading = this.cache.loaded.then(prepare);
+      this.loading.catch(() => {});
     } else {
-      this.cache = { dirty: false, store: new Map() };
-      this.load();
-      globalCache.set(this.options.storagePath, this.cache);
+      prepare();
+    }
+  }
+
+  /**
+   * Resolves once the persisted data has been loaded.
+   * Synchronous providers load during construction, so this is already resolved for them.
+   */
+  get loaded(): Promise<void> {
+    return this.loading;
+  }
+
+  ready(): Promise<void> {
+    return this.loading;
+  }
+
+  on<K extends keyof MemoryVectorStoreEvents<T>>(
+    event: K,
+    listener: (payload: MemoryVectorStoreEvents<T>[K]) => void
+  ): () => void {
+    return this.cache.events.on(event, listener);
+  }
+
+  off<K extends keyof MemoryVectorStoreEvents<T>>(
+    event: K,
+    listener: (payload: MemoryVectorStoreEvents<T>[K]) => void
+  ): void {
+    this.cache.events.off(event, listener);
+  }
+
+  private lexicalOptions(): MemoryVectorLexicalOptions {
+    return typeof this.options.lexical === 'object' ? this.options.lexical : {};
+  }
+
+  private buildLexicalIndex(snapshot?: MemoryVectorLexicalSnapshot): Bm25Index {
+    if (this.cache.lexical) return this.cache.lexical;
+
+    const options = this.lexicalOptions();
+    const tokenizer = options.tokenizer ?? defaultTokenizer;
+    const parameters = { k1: options.k1 ?? 1.2, b: options.b ?? 0.75 };
+    this.cache.lexical = snapshot && Bm25Index.fromJSON(snapshot, tokenizer, parameters);
+    if (!this.cache.lexical) {
+      this.cache.lexical = new Bm25Index(tokenizer, parameters);
+      for (const [id, entry] of this.cache.store) {
+        this.cache.lexical.add(id, entry.content);
+      }
+    }
+    return this.cache.lexical;
+  }
+
+  private buildIndex(snapshot?: MemoryVectorIndexSnapshot): void {
+    if (!this.options.index || this.cache.index) return;
+
+    const options = hnswOptions(this.options.index);
+    const distance = toDistance(this.cache.metric);
+    const items = Array.from(this.cache.store, ([id, entry]) => ({ id, vector: entry.vector }));
+
+    // Removed documents release their arena slot, which the next vector reuses
+    const detach = (vector: AnyVector): AnyVector =>
+      !Array.isArray(vector) && 'arena' in vector ? dequantize(vector) : vector;
+
+    this.cache.index = snapshot && HnswIndex.fromJSON<AnyVector>(snapshot, items, distance, options, detach);
+    if (!this.cache.index) {
+      this.cache.index = new HnswIndex(distance, options, detach);
+      for (const item of items) {
+        this.cache.index.add(item.id, item.vector);
+      }
+      if (this.options.debug) console.log(`[LiteMemoryVectorStore] Built HNSW index for ${items.length} items.`);
+    }
+  }
+
+  private setEntry(id: string, entry: StoreEntry<T>): void {
+    const previous = this.cache.store.get(id);
+    this.cache.store.set(id, entry);
+    if (!previous) this.countEntry(id, 1);
+    this.cache.changes?.ids.add(id);
+    if (entry.expiresAt !== undefined) this.cache.nextExpiry = Math.min(this.cache.nextExpiry, entry.expiresAt);
+    if (previous?.vector !== entry.vector) {
+      this.cache.index?.add(id, entry.vector);
+      if (previous) releaseVector(previous.vector);
+    }
+    if (previous?.content !== entry.content) this.cache.lexical?.add(id, entry.content);
+  }
+
+  private deleteEntry(id: string): boolean {
+    const entry = this.cache.store.get(id);
+    if (!entry) return false;
+    this.cache.store.delete(id);
+    this.countEntry(id, -1);
+    this.cache.changes?.ids.add(id);
+    this.cache.index?.remove(id);
+    this.cache.lexical?.remove(id);
+    releaseVector(entry.vector);
+    return true;
+  }
+
+  private countEntry(id: string, delta: number): void {
+    const [collection] = splitKey(id);
+    if (collection === undefined) return;
+    const count = (this.cache.collections.get(collection) ?? 0) + delta;
+    if (count > 0) this.cache.collections.set(collection, count);
+    else this.cache.collections.delete(collection);
+  }
+
+  private countCollections(): void {
+    this.cache.collections.clear();
+    for (const id of this.cache.store.keys()) this.countEntry(id, 1);
+  }
+
+  /**
+   * Checks store keys against the collections a call covers: this store's own, the listed ones, or all with '*'.
+   * Returns undefined when every document matches.
+   */
+  private scopeOf(collections?: string[] | '*'): ((id: string) => boolean) | undefined {
+    if (collections === '*') return undefined;
+    // Keys are compared by prefix, without splitting them for every document
+    if (collections) {
+      const prefixes = collections.map((name) => storeKey(name, ''));
+      return (id) => prefixes.some((prefix) => id.startsWith(prefix));
+    }
+    if (this.name === undefined) {
+      if (this.cache.collections.size === 0) return undefined;
+      return (id) => !id.includes(COLLECTION_SEPARATOR);
+    }
+    const prefix = storeKey(this.name, '');
+    return (id) => id.startsWith(prefix);
+  }
+
+  /**
+   * Metadata filters read the entries directly; only predicate filters get a document built for each entry.
+   */
+  private entryPredicate(
+    filter: MemoryVectorSearchFilter<T> | undefined,
+    collections?: string[] | '*'
+  ): EntryPredicate<T> | undefined {
+    const scope = this.scopeOf(collections);
+    if (typeof filter === 'function') {
+      return (id, entry) => (!scope || scope(id)) && filter(entryDocument(id, entry));
+    }
+    if (filter) {
+      const matches = compileFilter(filter);
+      return (id, entry) => (!scope || scope(id)) && matches(entry.metadata);
     }
+    return scope;
+  }
+
+  private expiryOf(options: MemoryVectorAddOptions): number | undefined {
+    if (options.expiresAt !== undefined) return options.expiresAt;
+    const ttlMs = options.ttlMs ?? this.options.defaultTtlMs;
+    return ttlMs === undefined ? undefined : Date.now() + ttlMs;
+  }
+
+  /**
+   * Removes expired documents.
+   * Called before every read, it only scans the store once the earliest tracked expiry has passed.
+   */
+  purgeExpired(): number {
+    const now = Date.now();
+    if (this.cache.nextExpiry > now) return 0;
+
+    const documents: MemoryDocument<T>[] = [];
+    let nextExpiry = Infinity;
+    for (const [id, entry] of this.cache.store) {
+      if (entry.expiresAt === undefined) continue;
+      if (entry.expiresAt <= now) {
+        this.deleteEntry(id);
+        documents.push(entryDocument(id, entry));
+      } else {
+        nextExpiry = Math.min(nextExpiry, entry.expiresAt);
+      }
+    }
+    this.cache.nextExpiry = nextExpiry;
+
+    if (documents.length > 0) {
+      this.cache.dirty = true;
+      if (this.options.debug) console.log(`[LiteMemoryVectorStore] Purged ${documents.length} expired documents`);
+      this.cache.events.emit('evict', { documents, reason: 'expired' });
+    }
+    return documents.length;
+  }
+
+  /**
+   * Records that entries were returned to the caller, for the 'lru' and 'lfu' policies.
+   * The store is not marked dirty for this: the bookkeeping is written along with the next change.
+   */
+  private recordAccess(accessed: { id: string; entry: StoreEntry<T> }[]): void {
+    const now = Date.now();
+    for (const { id, entry } of accessed) {
+      entry.accessedAt = now;
+      entry.hits++;
+      this.cache.changes?.accessed.add(id);
+    }
+  }
+
+  /**
+   * Lists up to `count` ids in the order the eviction policy drops them, skipping the `keep` ones.
+   * Entries the policy ranks equally are evicted in insertion order.
+   */
+  private evictionCandidates(count: number = Infinity, keep?: Set<string>): string[] {
+    const policy = this.options.eviction;
+    const order = evictionOrders[policy === undefined || policy === 'none' ? 'fifo' : policy];
+    type Candidate = [id: string, entry: StoreEntry<T>, position: number];
+    const compare = (a: Candidate, b: Candidate) => order(a[1], b[1]) || a[2] - b[2];
+
+    // Keeps the `count` candidates to evict first, the last of them on top
+    const heap = new BinaryHeap<Candidate>((a, b) => compare(b, a));
+    let position = 0;
+    for (const [id, entry] of this.cache.store) {
+      if (keep?.has(id)) continue;
+      const candidate: Candidate = [id, entry, position++];
+      if (heap.size < count) {
+        heap.push(candidate);
+      } else if (compare(candidate, heap.peek()!) < 0) {
+        heap.pop();
+        heap.push(candidate);
+      }
+    }
+
+    const ids: string[] = [];
+    while (heap.size > 0) ids.push(heap.pop()![0]);
+    return ids.reverse();
+  }
+
+  private evict(ids: string[]): void {
+    const documents: MemoryDocument<T>[] = [];
+    for (const id of ids) {
+      const entry = this.cache.store.get(id);
+      if (entry && this.deleteEntry(id)) documents.push(entryDocument(id, entry));
+    }
+    if (documents.length === 0) return;
+
+    const policy = this.options.eviction;
+    const reason = policy === undefined || policy === 'none' ? 'fifo' : policy;
+    this.cache.dirty = true;
+    if (this.options.debug) {
+      console.log(`[LiteMemoryVectorStore] Evicted ${documents.length} documents (${reason})`);
+    }
+    this.options.onEvict?.(documents);
+    this.cache.events.emit('evict', { documents, reason });
+  }
+
+  /**
+   * Evicts documents past `maxDocuments`, sparing the `keep` ones while enough others are left.
+   */
+  private enforceDocumentLimit(keep?: Set<string>): void {
+    const max = this.options.maxDocuments;
+    const excess = max === undefined ? 0 : this.cache.store.size - max;
+    if (excess <= 0 || this.options.eviction === 'none') return;
+
+    const spared = keep && this.cache.store.size - keep.size >= excess ? keep : undefined;
+    this.evict(this.evictionCandidates(excess, spared));
+  }
+
+  /**
+   * Checks that a document added without an id does not replace one updated to other content,
+   * which still holds the id derived from its original content.
+   */
+  private checkDerivedId(key: string, document: MemoryDocument<T>, explicit: boolean): void {
+    const entry = this.cache.store.get(key);
+    if (!explicit && entry && entry.content !== document.content) throw new DocumentIdConflictError(document.id!);
+  }
+
+  /**
+   * Under the 'none' policy, checks that storing `id` does not take the store past `maxDocuments`.
+   */
+  private checkCapacity(id: string): void {
+    const max = this.options.maxDocuments;
+    if (this.options.eviction !== 'none' || max === undefined) return;
+    if (!this.cache.store.has(id) && this.cache.store.size >= max) {
+      throw new StoreFullError(`maxDocuments (${max}) reached`);
+    }
+  }
+
+  /**
+   * Ensures the configured metric matches the one the stored vectors are scored with.
+   */
+  private checkMetric(metricName: string): void {
+    if (this.options.metric === undefined) return;
+    const configured = resolveMetric(this.options.metric).name;
+    if (configured !== metricName) throw new MetricMismatchError(configured, metricName);
   }
 
   private truncateLog(text: string, maxLength: number = 50): string {
@@ -65,186 +704,1229 @@ export class VectorStore<T = any> implements MemoryVectorStore<T> {
     return text.substring(0, maxLength) + '...';
   }
 
-  async add(document: string): Promise<MemoryVectorData<T>>;
-  async add(document: MemoryDocument<T>): Promise<MemoryVectorData<T>>;
-  async add(document: unknown): Promise<MemoryVectorData<T>> {
-    const d: MemoryDocument<T> =
-      typeof document === 'string'
-        ? doc(document)
-        : doc((document as MemoryDocument).content, (document as MemoryDocument).metadata);
+  async add(document: string, options?: MemoryVectorAddOptions): Promise<MemoryVectorData<T>>;
+  async add(document: MemoryDocument<T>, options?: MemoryVectorAddOptions): Promise<MemoryVectorData<T>>;
+  async add(document: unknown, options: MemoryVectorAddOptions = {}): Promise<MemoryVectorData<T>> {
+    await this.loading;
+    this.checkOpen();
+    const d = toDocument(document as string | MemoryDocument<T>);
 
     if (this.options.debug) {
       console.log(`[LiteMemoryVectorStore] Adding document: ${this.truncateLog(d.content)}`);
     }
 
-    const vector = await this.vectorParser(d.content);
+    const key = storeKey(this.name, d.id!);
+    const explicit = hasExplicitId(document as string | MemoryDocument<T>);
+    this.checkDerivedId(key, d, explicit);
+    this.checkCapacity(key);
+    const vector = await this.parseVector(d.content);
 
-    if (!Array.isArray(vector)) throw new Error('Vector parser must return an array');
-
-    this.cache.store.set(d.content, {
-      metadata: d.metadata,
-      vector,
-    });
+    this.checkDerivedId(key, d, explicit);
+    this.checkCapacity(key);
+    this.setEntry(
+      key,
+      createEntry(this.cache.store.get(key), d.content, d.metadata, this.toStored(vector), this.expiryOf(options))
+    );
+    this.cache.events.emit('add', { documents: [d], collection: this.name });
+    this.enforceDocumentLimit(new Set([key]));
     this.cache.dirty = true;
-    if (this.options.autoSave) {
-      this.save();
-    }
+    this.autoSave();
     return {
       document: d,
       vector,
     };
   }
 
-  private cosineSimilarity(a: number[], b: number[]): number {
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
+  async addMany(
+    documents: Array<string | MemoryDocument<T>>,
+    options: MemoryVectorAddManyOptions = {}
+  ): Promise<MemoryVectorAddManyResult<T>> {
+    await this.loading;
+    this.checkOpen();
+    const docs = documents.map((document) => toDocument(document));
+    const failed: MemoryVectorAddManyResult<T>['failed'] = [];
+
+    if (this.options.debug) {
+      console.log(`[LiteMemoryVectorStore] Adding ${docs.length} documents (concurrency: ${options.concurrency ?? 4})`);
+    }
+
+    const vectors = await this.embed(
+      docs.map(({ content }) => content),
+      {
+        ...options,
+        check: (vector) => this.acceptVector(vector),
+        onFailure: (index, error) => failed.push({ index, document: docs[index], error }),
+      }
+    );
+
+    const added: MemoryVectorData<T>[] = [];
+    const keys = new Set<string>();
+    const expiresAt = this.expiryOf(options);
+    docs.forEach((d, index) => {
+      const vector = vectors[index];
+      if (!vector) return;
+      const key = storeKey(this.name, d.id!);
+      try {
+        this.checkDerivedId(key, d, hasExplicitId(documents[index]));
+        this.checkCapacity(key);
+      } catch (error) {
+        failed.push({ index, document: d, error });
+        return;
+      }
+      this.setEntry(
+        key,
+        createEntry(this.cache.store.get(key), d.content, d.metadata, this.toStored(vector), expiresAt)
+      );
+      keys.add(key);
+      added.push({ document: d, vector });
+    });
+    if (added.length > 0) {
+      this.cache.events.emit('add', { documents: added.map(({ document }) => document), collection: this.name });
+    }
+    this.enforceDocumentLimit(keys);
+    failed.sort((a, b) => a.index - b.index);
 
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
+    if (added.length > 0) {
+      this.cache.dirty = true;
+      this.autoSave();
     }
 
-    if (normA === 0 || normB === 0) return 0;
+    if (this.options.debug && failed.length > 0) {
+      console.log(`[LiteMemoryVectorStore] Failed to embed ${failed.length} of ${docs.length} documents`);
+    }
 
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+    return { added, failed };
   }
 
-  async similaritySearch(
-    query: string,
-    k?: number,
-    filter?: ((doc: MemoryDocument<T>) => boolean) | undefined
-  ): Promise<(MemoryDocument<T> & { score: number })[]> {
-    await this.saveLock.wait();
-    const queryVector = this.cache.store.get(query)?.vector ?? (await this.vectorParser(query));
-
-    let candidates = Array.from(this.cache.store.entries(), ([content, value]) => {
-      const document: MemoryDocument<T> = {
-        content,
-        metadata: value.metadata,
-      };
-      return document;
+  async addDocument(
+    text: string,
+    options: MemoryVectorAddDocumentOptions<T> = {}
+  ): Promise<MemoryVectorAddDocumentResult<T>> {
+    await this.loading;
+    this.checkOpen();
+    const {
+      id: parentId = documentId(text),
+      splitter = 'recursive',
+      chunkSize = 1000,
+      overlap = Math.round(chunkSize * 0.2),
+      metadata,
+      ...addOptions
+    } = options;
+
+    const split = typeof splitter === 'function' ? splitter : textSplitters[splitter];
+    if (!split) throw new MemoryVectorStoreError(`Unknown splitter "${splitter}"`);
+    const chunks = split(text, { chunkSize, overlap });
+    const offsets = chunkOffsets(text, chunks);
+    const documents = chunks.map((content, index) => {
+      const chunk: MemoryChunkInfo = { parentId, index, count: chunks.length };
+      if (offsets[index] >= 0) {
+        chunk.start = offsets[index];
+        chunk.end = offsets[index] + content.length;
+      }
+      return doc(content, { ...metadata, chunk } as T, chunkId(parentId, index));
     });
-    if (filter) {
-      candidates = candidates.filter(filter);
+
+    if (this.options.debug) {
+      console.log(`[LiteMemoryVectorStore] Split document ${parentId} into ${chunks.length} chunks`);
     }
 
-    const scoredResults = candidates.map((item) => ({
-      item,
-      score: this.cosineSimilarity(queryVector, this.cache.store.get(item.content)!.vector),
-    }));
+    const previous = new Set<string>();
+    for (const [key, entry] of this.cache.store) {
+      if (splitKey(key)[0] === this.name && parentIdOf(entry) === parentId) previous.add(key);
+    }
+    const result = await this.addMany(documents, addOptions);
 
-    scoredResults.sort((a, b) => b.score - a.score);
+    // Chunks of an earlier version of the document that were not replaced
+    for (const { document } of result.added) previous.delete(storeKey(this.name, document.id!));
+    if (previous.size > 0) this.removeWhere((key) => previous.has(key));
+    return { parentId, ...result };
+  }
 
-    return scoredResults.slice(0, k).map((result) => ({
-      content: result.item.content,
-      metadata: result.item.metadata,
-      score: result.score,
-    }));
+  get(id: string): MemoryDocument<T> | undefined {
+    this.purgeExpired();
+    const key = storeKey(this.name, id);
+    const entry = this.cache.store.get(key);
+    if (!entry) return undefined;
+    this.recordAccess([{ id: key, entry }]);
+    return entryDocument(id, entry);
   }
 
-  async remove(content: string): Promise<void> {
-    const initialLength = this.cache.store.size;
-    this.cache.store.delete(content);
+  has(id: string): boolean {
+    this.purgeExpired();
+    return this.cache.store.has(storeKey(this.name, id));
+  }
 
-    if (this.cache.store.size !== initialLength) {
-      this.cache.dirty = true;
+  async update(id: string, patch: MemoryDocumentPatch<T>): Promise<MemoryVectorData<T> | undefined> {
+    await this.loading;
+    this.checkOpen();
+    this.purgeExpired();
+    const key = storeKey(this.name, id);
+    const entry = this.cache.store.get(key);
+    if (!entry) return undefined;
 
-      if (this.options.autoSave) {
-        this.save();
-      }
+    const content = patch.content ?? entry.content;
+    const vector = content === entry.content ? undefined : await this.parseVector(content);
+    // The document may have been removed or changed while the content was embedded
+    const current = this.cache.store.get(key);
+    if (!current) return undefined;
+    if (current !== entry) return this.update(id, patch);
+    this.checkOpen();
+    this.checkCapacity(key);
+    const metadata = 'metadata' in patch ? patch.metadata : entry.metadata;
+
+    if (this.options.debug) {
+      console.log(`[LiteMemoryVectorStore] Updating document: ${id}`);
     }
-  }
 
-  clear(): void {
-    if (this.cache.store.size > 0) {
-      this.cache.store.clear();
-      this.cache.dirty = true;
+    this.setEntry(
+      key,
+      createEntry(entry, content, metadata, vector ? this.toStored(vector) : entry.vector, entry.expiresAt)
+    );
+    this.cache.events.emit('add', { documents: [doc(content, metadata, id)], collection: this.name });
+    this.cache.dirty = true;
+    this.autoSave();
+    return {
+      document: doc(content, metadata, id),
+      vector: vector ?? dequantize(entry.vector),
+    };
+  }
 
-      if (this.options.autoSave) {
-        this.save();
-      }
+  private findByContent(content: string): [string, StoreEntry<T>] | undefined {
+    const id = storeKey(this.name, documentId(content));
+    const entry = this.cache.store.get(id);
+    if (entry?.content === content) return [id, entry];
+    const scope = this.scopeOf();
+    for (const candidate of this.cache.store) {
+      if (candidate[1].content === content && (!scope || scope(candidate[0]))) return candidate;
     }
+    return undefined;
   }
 
-  getAll(): MemoryDocument<T>[] {
-    return Array.from(this.cache.store.entries(), ([content, value]) => ({
-      content,
-      metadata: value.metadata,
-    }));
+  private async parseVector(content: string): Promise<number[]> {
+    return this.acceptVector(await this.vectorParser(content));
   }
 
   /**
-   * Get the number of items in the store
-   * @returns {number} Total number of vector data items
+   * Checks a vector to store, recording its length as the store's dimension when there is none yet.
    */
-  count(): number {
-    return this.cache.store.size;
+  private acceptVector(vector: unknown): number[] {
+    const checked = this.checkVector(vector, this.cache.dimension);
+    if (this.cache.dimension === undefined) {
+      this.cache.dimension = checked.length;
+      // Binary codes cannot be read back without the dimension, which only full saves record
+      if (this.savedQuantization()) this.cache.compact = true;
+    }
+    return checked;
   }
 
   /**
-   * Save the current state of the vector store to disk
+   * Keeps a vector in the form the store is configured with, quantized or full precision.
    */
-  async save(): Promise<void> {
-    if (!this.cache.dirty || !this.options.storagePath) return Promise.resolve();
-    this.saveLock.lock();
-
-    debounce(
-      this.options.storagePath,
-      async () => {
-        try {
-          const maxSizeBytes = (this.options.maxFileSizeMB || 500) * 1024 * 1024;
+  private toStored(vector: number[]): StoredVector {
+    if (this.cache.quantization) return quantize(vector, this.cache.quantization);
+    // Vectors of a previous dimension keep their arena until re-embedded
+    if (this.cache.arena?.dimension !== vector.length) this.cache.arena = new VectorArena(vector.length);
+    return this.cache.arena.allocate(vector);
+  }
 
-          const serializedData = Array.from(this.cache.store.entries(), serializeItem);
-          let jsonData = JSON.stringify(serializedData);
-          let dataSize = Buffer.byteLength(jsonData, 'utf8');
+  /**
+   * Quantization of the saved vectors, undefined when they are saved at full precision.
+   * Vectors are saved as codes unless re-ranking keeps their full-precision values.
+   */
+  private savedQuantization(): MemoryVectorQuantizationType | undefined {
+    const quantization = this.cache.quantization;
+    return quantization && !quantization.rerank ? quantization.type : undefined;
+  }
 
-          if (dataSize > maxSizeBytes && serializedData.length > 0) {
-            if (this.options.debug) {
-              console.log(
-                `[LiteMemoryVectorStore] Data size (${this.formatSize(dataSize)}) exceeds limit (${this.formatSize(maxSizeBytes)})`
-              );
-            }
+  /**
+   * Rebuilds a saved vector in the form this store keeps, converting it when it was saved in another one.
+   * Vectors saved as codes are dequantized first: the precision they lost is not recovered.
+   */
+  private restoreVector(
+    vector: number[],
+    scale: number | undefined,
+    type: MemoryVectorQuantizationType | undefined,
+    dimension: number | undefined
+  ): StoredVector {
+    if (!type || scale === undefined) return this.toStored(vector);
+    const quantized = fromCodes(type, vector, scale, dimension ?? vector.length);
+    return type === this.savedQuantization() ? quantized : this.toStored(dequantize(quantized));
+  }
 
-            while (dataSize > maxSizeBytes && serializedData.length > 0) {
-              serializedData.shift();
-              jsonData = JSON.stringify(serializedData);
-              dataSize = Buffer.byteLength(jsonData, 'utf8');
-            }
+  /**
+   * Ensures a vector is an array of finite numbers of the given dimension.
+   */
+  private checkVector(vector: unknown, dimension: number | undefined): number[] {
+    if (!Array.isArray(vector)) throw new InvalidVectorError('Vector parser must return an array');
+    if (dimension !== undefined && vector.length !== dimension) {
+      throw new DimensionMismatchError(dimension, vector.length);
+    }
+    for (const value of vector) {
+      if (!Number.isFinite(value)) throw new InvalidVectorError(`Vector values must be finite numbers, got ${value}`);
+    }
+    return vector;
+  }
 
-            if (this.options.debug) {
-              console.log(
-                `[LiteMemoryVectorStore] Trimmed to ${serializedData.length} items (${this.formatSize(dataSize)})`
-              );
-            }
-            this.cache.store.clear();
-            for (const item of serializedData) {
-              this.cache.store.set(item[0], {
-                metadata: item[2],
-                vector: item[1],
-              });
-            }
-          }
+  /**
+   * Embeds a query, reusing the vector of a stored document with the same content under its derived id.
+   * Documents added with their own ids are not looked up, as that would scan the whole store on every query.
+   */
+  private async queryVector(query: string): Promise<number[]> {
+    const entry = this.cache.store.get(storeKey(this.name, documentId(query)));
+    if (entry?.content === query) return dequantize(entry.vector);
+    return this.checkVector(await this.vectorParser(query), this.cache.dimension);
+  }
 
-          this.storageProvider.save(this.options.storagePath!, serializedData);
-          this.cache.dirty = false;
+  /**
+   * Embeds the contents with the store's parser, or in batches with a batchParser.
+   *
+   * @returns The vectors, undefined for the contents that failed
+   */
+  private async embed(contents: string[], options: EmbedOptions): Promise<Array<number[] | undefined>> {
+    const vectors: Array<number[] | undefined> = new Array(contents.length);
+    const concurrency = options.concurrency ?? 4;
+    let done = 0;
 
-          if (this.options.debug) {
-            console.log(
-              `[LiteMemoryVectorStore] Save completed. ${serializedData.length} items saved (${this.formatSize(dataSize)})`
-            );
+    if (options.batchParser) {
+      const batchParser = options.batchParser;
+      const batches = chunkArray(
+        contents.map((_, index) => index),
+        Math.max(options.batchSize ?? 100, 1)
+      );
+      await parallel(batches, concurrency, async (batch) => {
+        try {
+          const result = await batchParser(batch.map((index) => contents[index]));
+          if (!Array.isArray(result) || result.length !== batch.length) {
+            throw new Error('Batch parser must return one vector per content');
           }
+          batch.forEach((index, i) => {
+            try {
+              vectors[index] = options.check(result[i]);
+            } catch (error) {
+              options.onFailure(index, error);
+            }
+          });
         } catch (error) {
-          console.error('Error saving vector store:', error);
-        } finally {
-          this.saveLock.unLock();
+          batch.forEach((index) => options.onFailure(index, error));
         }
-      },
-      100
+        done += batch.length;
+        options.onProgress?.(done);
+      });
+    } else {
+      await parallel(contents, concurrency, async (content, index) => {
+        try {
+          vectors[index] = options.check(await this.vectorParser(content));
+        } catch (error) {
+          options.onFailure(index, error);
+        }
+        options.onProgress?.(++done);
+      });
+    }
+    return vectors;
+  }
+
+  async reembedAll(options: MemoryVectorReembedOptions = {}): Promise<number> {
+    await this.loading;
+    this.checkOpen();
+    this.purgeExpired();
+    const entries = Array.from(this.cache.store);
+
+    if (this.options.debug) {
+      console.log(`[LiteMemoryVectorStore] Re-embedding ${entries.length} documents`);
+    }
+
+    // The new model may have another dimension: take it from its first vector unless configured
+    let dimension = this.options.dimension;
+    let failure: { error: unknown } | undefined;
+    const { onProgress } = options;
+    const vectors = await this.embed(
+      entries.map(([, entry]) => entry.content),
+      {
+        ...options,
+        check: (vector) => {
+          const checked = this.checkVector(vector, dimension);
+          dimension ??= checked.length;
+          return checked;
+        },
+        onFailure: (_, error) => {
+          failure ??= { error };
+        },
+        onProgress: onProgress && ((done) => onProgress(done, entries.length)),
+      }
     );
-    return this.saveLock.wait();
+    if (failure) throw failure.error;
+
+    let count = 0;
+    entries.forEach(([key, entry], i) => {
+      // Documents changed meanwhile were embedded with the current parser already
+      if (this.cache.store.get(key) !== entry) return;
+      this.cache.store.set(key, { ...entry, vector: this.toStored(vectors[i]!) });
+      releaseVector(entry.vector);
+      count++;
+    });
+    this.cache.dimension = dimension;
+    this.cache.modelId = this.options.modelId;
+    this.cache.index = undefined;
+    this.buildIndex();
+
+    // Appending operations would not record the new dimension and model
+    this.cache.compact = true;
+    this.cache.dirty = true;
+    this.autoSave();
+    return count;
+  }
+
+  async similaritySearch(
+    query: string,
+    k?: number,
+    filter?: MemoryVectorSearchFilter<T>
+  ): Promise<MemoryVectorSearchResult<T>[]>;
+  async similaritySearch(query: string, options: MemoryVectorSearchOptions<T>): Promise<MemoryVectorSearchResult<T>[]>;
+  async similaritySearch(
+    query: string,
+    kOrOptions?: number | MemoryVectorSearchOptions<T>,
+    filter?: MemoryVectorSearchFilter<T>
+  ): Promise<MemoryVectorSearchResult<T>[]> {
+    const options: MemoryVectorSearchOptions<T> =
+      typeof kOrOptions === 'object' ? kOrOptions : { k: kOrOptions, filter };
+
+    await this.loading;
+    const queryVector = await this.queryVector(query);
+    return this.similaritySearchByVector(queryVector, options);
+  }
+
+  async similaritySearchByVector(
+    queryVector: number[],
+    options: MemoryVectorSearchOptions<T> = {}
+  ): Promise<MemoryVectorSearchResult<T>[]> {
+    return this.searchByVector(queryVector, options);
+  }
+
+  private async searchByVector(
+    queryVector: number[],
+    options: MemoryVectorSearchOptions<T>,
+    excluded?: string
+  ): Promise<MemoryVectorSearchResult<T>[]> {
+    await this.loading;
+    await this.saveSettled();
+    this.purgeExpired();
+    this.checkVector(queryVector, this.cache.dimension);
+    const matches = this.entryPredicate(options.filter, options.collections);
+    const predicate: EntryPredicate<T> | undefined =
+      excluded === undefined ? matches : (id, entry) => id !== excluded && (!matches || matches(id, entry));
+    const offset = Math.max(options.offset ?? 0, 0);
+    const limit = options.k === undefined ? undefined : offset + options.k;
+
+    let results = this.indexSearch(queryVector, limit, predicate) ?? this.exactSearch(queryVector, limit, predicate);
+    if (options.minScore !== undefined) {
+      results = results.filter(({ score }) => meetsThreshold(this.cache.metric, score, options.minScore!));
+    }
+
+    results = results.slice(offset);
+    this.recordAccess(results);
+    return results.map(({ id, entry, score }) => {
+      const result = entryResult(id, entry, score);
+      if (options.includeVectors) result.vector = dequantize(entry.vector);
+      return result;
+    });
+  }
+
+  async findSimilarTo(
+    contentOrId: string,
+    options: MemoryVectorSearchOptions<T> = {}
+  ): Promise<MemoryVectorSearchResult<T>[]> {
+    await this.loading;
+    this.purgeExpired();
+    const key = storeKey(this.name, contentOrId);
+    const entry = this.cache.store.get(key);
+    const [id, target] = entry ? [key, entry] : (this.findByContent(contentOrId) ?? []);
+    if (!id || !target) return [];
+
+    return this.searchByVector(dequantize(target.vector), options, id);
+  }
+
+  async hybridSearch(
+    query: string,
+    options: MemoryVectorHybridSearchOptions<T> = {}
+  ): Promise<MemoryVectorHybridSearchResult<T>[]> {
+    const k = options.k ?? 4;
+    const fetchK = Math.max(options.fetchK ?? k * 4, k);
+
+    await this.loading;
+    await this.saveSettled();
+    this.purgeExpired();
+    const lexical = this.buildLexicalIndex();
+    const queryVector = await this.queryVector(query);
+    const predicate = this.entryPredicate(options.filter, options.collections);
+
+    const vectorResults =
+      this.indexSearch(queryVector, fetchK, predicate) ?? this.exactSearch(queryVector, fetchK, predicate);
+    const lexicalResults = lexical.search(
+      query,
+      fetchK,
+      predicate && ((id) => predicate(id, this.cache.store.get(id)!))
+    );
+
+    const candidates = new Map<string, { vectorScore: number; lexicalScore: number }>();
+    for (const { id, score } of vectorResults) {
+      candidates.set(id, { vectorScore: score, lexicalScore: 0 });
+    }
+    for (const { id, score } of lexicalResults) {
+      const candidate = candidates.get(id);
+      if (candidate) candidate.lexicalScore = score;
+      else
+        candidates.set(id, {
+          vectorScore: scoreFullPrecision(this.cache.metric, queryVector, this.cache.store.get(id)!.vector),
+          lexicalScore: score,
+        });
+    }
+
+    const ids = Array.from(candidates.keys());
+    let fused: number[];
+    if (options.rrf) {
+      const rrf = reciprocalRankFusion(
+        [vectorResults.map(({ id }) => id), lexicalResults.map(({ id }) => id)],
+        typeof options.rrf === 'number' ? options.rrf : undefined
+      );
+      fused = ids.map((id) => rrf.get(id)!);
+    } else {
+      const alpha = options.alpha ?? 0.5;
+      const vectorScores = normalizeScores(
+        ids.map((id) => candidates.get(id)!.vectorScore),
+        this.cache.metric.higherIsBetter
+      );
+      const maxLexicalScore = Math.max(...ids.map((id) => candidates.get(id)!.lexicalScore));
+      fused = ids.map(
+        (id, i) =>
+          alpha * vectorScores[i] +
+          (1 - alpha) * (maxLexicalScore > 0 ? candidates.get(id)!.lexicalScore / maxLexicalScore : 0)
+      );
+    }
+
+    const ranked = ids
+      .map((id, i) => ({ id, entry: this.cache.store.get(id)!, score: fused[i] }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+    this.recordAccess(ranked);
+    return ranked.map(({ id, entry, score }) => ({ ...entryResult(id, entry, score), ...candidates.get(id)! }));
+  }
+
+  async maxMarginalRelevanceSearch(
+    query: string,
+    options: MemoryVectorMMRSearchOptions<T> = {}
+  ): Promise<MemoryVectorSearchResult<T>[]> {
+    const k = options.k ?? 4;
+    const fetchK = Math.max(options.fetchK ?? 20, k);
+    const lambda = options.lambda ?? 0.5;
+
+    await this.loading;
+    await this.saveSettled();
+    this.purgeExpired();
+    const queryVector = await this.queryVector(query);
+    const predicate = this.entryPredicate(options.filter, options.collections);
+
+    const candidates =
+      this.cache.metric.name === 'cosine'
+        ? (this.indexSearch(queryVector, fetchK, predicate) ?? this.exactSearch(queryVector, fetchK, predicate))
+        : this.exactSearch(queryVector, fetchK, predicate, COSINE_METRIC);
+
+    const vectors = candidates.map(({ entry }) => dequantize(entry.vector));
+    const selected = maximalMarginalRelevance(queryVector, vectors, k, lambda);
+
+    this.recordAccess(selected.map((position) => candidates[position]));
+    return selected.map((position) => {
+      const { id, entry } = candidates[position];
+      return entryResult(id, entry, cosineSimilarity(queryVector, vectors[position]));
+    });
+  }
+
+  async parentDocumentSearch(
+    query: string,
+    options: MemoryVectorParentSearchOptions<T> = {}
+  ): Promise<MemoryVectorParentSearchResult<T>[]> {
+    const { k = 4, window = 0, fullDocument = false, minScore, filter, collections } = options;
+    const fetchK = Math.max(options.fetchK ?? k * 4, k);
+    const hits = await this.similaritySearch(query, { k: fetchK, minScore, filter, collections });
+
+    // Hits come best first, so the first one of each document holds its score
+    const groups = new Map<string, MemoryVectorSearchResult<T>[]>();
+    for (const hit of hits) {
+      const key = storeKey(hit.collection, chunkOf(hit.metadata)?.parentId ?? hit.id!);
+      const group = groups.get(key);
+      if (group) {
+        group.push(hit);
+      } else if (groups.size < k) {
+        groups.set(key, [hit]);
+      }
+    }
+
+    return Array.from(groups.values(), (chunks) => {
+      const [best] = chunks;
+      const chunk = chunkOf(best.metadata);
+      const result: MemoryVectorParentSearchResult<T> = {
+        parentId: chunk?.parentId ?? best.id!,
+        content: best.content,
+        score: best.score,
+        metadata: best.metadata,
+        chunks,
+      };
+      if (best.collection !== undefined) result.collection = best.collection;
+      if (chunk) {
+        const indices = new Set<number>();
+        for (const { metadata } of chunks) {
+          const { index } = chunkOf(metadata)!;
+          const [from, to] = fullDocument ? [0, chunk.count - 1] : [index - window, index + window];
+          for (let i = Math.max(from, 0); i <= Math.min(to, chunk.count - 1); i++) indices.add(i);
+        }
+        result.content = this.joinChunks(
+          best.collection,
+          chunk.parentId,
+          Array.from(indices).sort((a, b) => a - b)
+        );
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Joins chunks of a document in order, dropping the text consecutive chunks overlap on.
+   * Passages that are not next to each other are separated by a blank line.
+   */
+  private joinChunks(collection: string | undefined, parentId: string, indices: number[]): string {
+    let content = '';
+    let previous: MemoryChunkInfo | undefined;
+    for (const index of indices) {
+      const entry = this.cache.store.get(storeKey(collection, chunkId(parentId, index)));
+      const chunk = entry && chunkOf(entry.metadata);
+      if (!chunk || chunk.parentId !== parentId) {
+        // Evicted or expired: the next chunk starts a new passage
+        previous = undefined;
+        continue;
+      }
+
+      if (!content) {
+        content = entry.content;
+      } else if (previous?.index !== index - 1) {
+        content += `\n\n${entry.content}`;
+      } else if (previous.end !== undefined && chunk.start !== undefined && chunk.start < previous.end) {
+        content += entry.content.slice(previous.end - chunk.start);
+      } else {
+        content += `\n${entry.content}`;
+      }
+      previous = chunk;
+    }
+    return content;
   }
+
+  private exactSearch(
+    queryVector: number[],
+    k: number | undefined,
+    predicate: EntryPredicate<T> | undefined,
+    metric: ResolvedMetric = this.cache.metric
+  ): ScoredEntry<T>[] {
+    const compare = compareScores(metric);
+    const order = (a: RankedEntry<T>, b: RankedEntry<T>) => compare(a, b) || a.position - b.position;
+    const limit = k === undefined ? undefined : Math.ceil(k * Math.max(this.cache.quantization?.rerank ?? 1, 1));
+    // Keeps the best `limit` entries with the worst on top, so only they get sorted
+    const heap = new BinaryHeap<RankedEntry<T>>((a, b) => order(b, a));
+    const all: RankedEntry<T>[] = [];
+
+    const arena = this.cache.arena;
+    const scoreSlot = arena && arenaScorer(arena, metric, queryVector);
+    let position = 0;
+    this.cache.store.forEach((entry, id) => {
+      position++;
+      if (predicate && !predicate(id, entry)) return;
+      const { vector } = entry;
+      const score =
+        scoreSlot && (vector as ArenaVector).arena === arena
+          ? scoreSlot((vector as ArenaVector).slot)
+          : scoreVectors(metric, queryVector, vector);
+
+      if (limit === undefined) {
+        all.push({ id, entry, score, position });
+      } else if (heap.size < limit) {
+        heap.push({ id, entry, score, position });
+      } else if (limit > 0 && (metric.higherIsBetter ? score > heap.peek()!.score : score < heap.peek()!.score)) {
+        heap.pop();
+        heap.push({ id, entry, score, position });
+      }
+    });
+
+    const results = limit === undefined ? all : heap.toArray();
+    return this.rerank(queryVector, results.sort(order), k, metric);
+  }
+
+  /**
+   * Scores the best `rerank * k` candidates again with their full-precision vectors, when quantization keeps them.
+   *
+   * @param results - Candidates scored with the quantized vectors, best first
+   */
+  private rerank(
+    queryVector: number[],
+    results: ScoredEntry<T>[],
+    k: number | undefined,
+    metric: ResolvedMetric
+  ): ScoredEntry<T>[] {
+    const rerank = this.cache.quantization?.rerank;
+    if (!rerank) return results.slice(0, k);
+
+    const candidates = results.slice(0, k === undefined ? undefined : Math.ceil(k * rerank));
+    for (const candidate of candidates) {
+      candidate.score = scoreFullPrecision(metric, queryVector, candidate.entry.vector);
+    }
+    return candidates.sort(compareScores(metric)).slice(0, k);
+  }
+
+  /**
+   * Searches the HNSW index when one is configured.
+   * Returns undefined when an exact search should be used instead: no k, a filter
+   * matching too few documents, fewer documents than the graph search would compare,
+   * or fewer results than expected from the graph.
+   */
+  private indexSearch(
+    queryVector: number[],
+    k: number | undefined,
+    predicate: EntryPredicate<T> | undefined
+  ): ScoredEntry<T>[] | undefined {
+    const index = this.cache.index;
+    if (!index || k === undefined || index.size === 0) return undefined;
+
+    let ef = index.options.efSearch;
+    let matches = this.cache.store.size;
+    if (predicate) {
+      matches = 0;
+      this.cache.store.forEach((entry, id) => {
+        if (predicate(id, entry)) matches++;
+      });
+      const selectivity = matches / this.cache.store.size;
+      if (selectivity < EXACT_SEARCH_SELECTIVITY || matches <= k) return undefined;
+      ef = Math.ceil(ef / selectivity);
+    }
+    // A graph search compares the query with up to 2M neighbors of each of its ef candidates:
+    // scoring the matches directly costs less and is exact when they are not more numerous
+    if (matches <= ef * index.options.M * 2) return undefined;
+
+    const limit = Math.ceil(k * Math.max(this.cache.quantization?.rerank ?? 1, 1));
+    const found = index.search(queryVector, limit, ef, predicate && ((id) => predicate(id, this.cache.store.get(id)!)));
+    if (found.length < Math.min(k, matches)) return undefined;
+
+    const results = found.map(({ id }) => {
+      const entry = this.cache.store.get(id)!;
+      return { id, entry, score: scoreVectors(this.cache.metric, queryVector, entry.vector) };
+    });
+    return this.rerank(queryVector, results, k, this.cache.metric);
+  }
+
+  async remove(content: string): Promise<void> {
+    await this.loading;
+    this.checkOpen();
+    this.removeWhere((_, entry) => entry.content === content);
+  }
+
+  async removeDocument(parentId: string): Promise<void> {
+    await this.loading;
+    this.checkOpen();
+    this.removeWhere((_, entry) => parentIdOf(entry) === parentId);
+  }
+
+  private removeWhere(predicate: EntryPredicate<T>): void {
+    const removed: MemoryDocument<T>[] = [];
+    const scope = this.scopeOf();
+    for (const [id, entry] of this.cache.store) {
+      if ((!scope || scope(id)) && predicate(id, entry) && this.deleteEntry(id)) {
+        removed.push(entryDocument(id, entry));
+      }
+    }
+
+    if (removed.length > 0) {
+      this.cache.dirty = true;
+      this.cache.events.emit('remove', { documents: removed, collection: this.name });
+      this.autoSave();
+    }
+  }
+
+  async removeById(id: string): Promise<void> {
+    await this.loading;
+    this.checkOpen();
+    const key = storeKey(this.name, id);
+    const entry = this.cache.store.get(key);
+    if (entry && this.deleteEntry(key)) {
+      this.cache.dirty = true;
+      this.cache.events.emit('remove', { documents: [entryDocument(key, entry)], collection: this.name });
+      this.autoSave();
+    }
+  }
+
+  clear(): void {
+    this.checkOpen();
+    if (this.cache.loading) {
+      this.loading.then(
+        () => this.clear(),
+        () => {}
+      );
+      return;
+    }
+    if (this.scopeOf()) {
+      // Other collections share the store, remove this one's documents only
+      this.removeCollection(this.name);
+    } else if (this.cache.store.size > 0) {
+      this.cache.store.clear();
+      this.cache.collections.clear();
+      this.cache.arena = undefined;
+      this.cache.dimension = this.options.dimension;
+      this.cache.index?.clear();
+      this.cache.lexical?.clear();
+      if (this.cache.changes) this.cache.changes = { ...emptyChanges(), cleared: true };
+      this.cache.dirty = true;
+      this.cache.events.emit('clear', { collection: this.name });
+      this.autoSave();
+    }
+  }
+
+  private removeCollection(name: string | undefined): void {
+    let removed = false;
+    for (const id of Array.from(this.cache.store.keys())) {
+      if (splitKey(id)[0] === name) removed = this.deleteEntry(id) || removed;
+    }
+    if (removed) {
+      this.cache.dirty = true;
+      this.cache.events.emit('clear', { collection: name });
+      this.autoSave();
+    }
+  }
+
+  collection(name: string): MemoryVectorStore<T> {
+    if (!name || name.includes(COLLECTION_SEPARATOR)) {
+      throw new MemoryVectorStoreError(`Invalid collection name "${name}"`);
+    }
+    return new VectorStore<T>(this.vectorParser, this.storageProvider, this.options, name);
+  }
+
+  listCollections(): string[] {
+    this.purgeExpired();
+    return Array.from(this.cache.collections.keys()).sort();
+  }
+
+  async dropCollection(name: string): Promise<void> {
+    await this.loading;
+    this.checkOpen();
+    this.removeCollection(name);
+  }
+
+  getAll(): MemoryDocument<T>[] {
+    this.purgeExpired();
+    const scope = this.scopeOf();
+    const documents: MemoryDocument<T>[] = [];
+    for (const [id, entry] of this.cache.store) {
+      if (!scope || scope(id)) documents.push(entryDocument(id, entry));
+    }
+    return documents;
+  }
+
+  /**
+   * Get the number of items in the store
+   * @returns {number} Total number of vector data items
+   */
+  count(): number {
+    this.purgeExpired();
+    if (this.name !== undefined) return this.cache.collections.get(this.name) ?? 0;
+    let count = this.cache.store.size;
+    for (const size of this.cache.collections.values()) count -= size;
+    return count;
+  }
+
+  /**
+   * Save the current state of the vector store to disk.
+   * Changes made in a row are written together after a short delay.
+   * @returns A promise resolving once the changes are written, rejected when the save failed
+   */
+  save(): Promise<void> {
+    return this.persist(SAVE_DELAY_MS);
+  }
+
+  /**
+   * Writes the pending changes right away instead of waiting for the save delay.
+   */
+  flush(): Promise<void> {
+    return this.persist();
+  }
+
+  /**
+   * Flushes the pending changes and releases the store: its timers, the watcher and the cached data,
+   * which the next store created for the same path loads again.
+   * Every collection of the file is closed with it, as they share the data.
+   */
+  async close(): Promise<void> {
+    const cache = this.cache;
+    if (cache.closed) return;
+    try {
+      await this.flush();
+    } finally {
+      cache.closed = true;
+      const key = this.options.storagePath!;
+      // Changes made while flushing cannot be saved anymore
+      if (cache.pendingSave) {
+        clearTimeout(cache.pendingSave.timer);
+        cache.pendingSave.reject(new StoreClosedError(key));
+        cache.pendingSave = undefined;
+      }
+      clearTimeout(cache.reloadTimer);
+      cache.unwatch?.();
+      cache.unwatch = undefined;
+      if (cache.exitHook) {
+        process.off('beforeExit', cache.exitHook);
+        cache.exitHook = undefined;
+      }
+      if (globalCache.get(key) === cache) globalCache.delete(key);
+    }
+  }
+
+  dispose(): Promise<void> {
+    return this.close();
+  }
+
+  private checkOpen(): void {
+    if (this.cache.closed) throw new StoreClosedError(this.options.storagePath!);
+  }
+
+  private autoSave(): void {
+    if (this.options.autoSave) {
+      // Failures are reported through onError and the error event
+      this.save().catch(() => {});
+    }
+  }
+
+  /**
+   * @param delay - Milliseconds to wait for further changes, saving right away when undefined
+   */
+  private async persist(delay?: number): Promise<void> {
+    await this.loading;
+    this.checkOpen();
+    this.purgeExpired();
+    if (this.cache.dirty) return this.scheduleSave(delay);
+    // Nothing new to save, but wait for the write of earlier changes
+    await this.cache.writing;
+  }
+
+  /**
+   * Joins the save already waiting for its delay, restarting the delay, so all its callers settle together.
+   */
+  private scheduleSave(delay?: number): Promise<void> {
+    let pending = this.cache.pendingSave;
+    if (pending) {
+      clearTimeout(pending.timer);
+    } else {
+      let resolve!: () => void;
+      let reject!: (error: unknown) => void;
+      const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      pending = this.cache.pendingSave = { promise, resolve, reject };
+    }
+
+    const scheduled = pending;
+    if (delay === undefined) {
+      this.runSave(scheduled);
+    } else {
+      scheduled.timer = setTimeout(() => this.runSave(scheduled), delay);
+    }
+    return scheduled.promise;
+  }
+
+  private runSave(pending: PendingSave): void {
+    // Changes made from now on wait for a save of their own
+    if (this.cache.pendingSave === pending) this.cache.pendingSave = undefined;
+    this.exclusive(() => this.write()).then(pending.resolve, pending.reject);
+  }
+
+  /**
+   * Runs saves and reloads one at a time, as each replaces what the other works on.
+   */
+  private async exclusive(task: () => Promise<void>): Promise<void> {
+    while (this.cache.writing) await this.cache.writing.catch(() => {});
+    const writing = task();
+    this.cache.writing = writing;
+    try {
+      await writing;
+    } finally {
+      if (this.cache.writing === writing) this.cache.writing = undefined;
+    }
+  }
+
+  /**
+   * Waits for the scheduled saves, which may evict documents to fit within maxFileSizeMB.
+   */
+  private async saveSettled(): Promise<void> {
+    let waiting: Promise<void> | undefined;
+    while ((waiting = this.cache.pendingSave?.promise ?? this.cache.writing)) {
+      await waiting.catch(() => {});
+    }
+  }
+
+  private async write(): Promise<void> {
+    if (!this.cache.dirty) return;
+    const key = this.options.storagePath!;
+    let release: (() => void) | undefined;
+    let changes: PendingChanges | undefined;
+    try {
+      release = await this.storageProvider.lock?.(key);
+      if (this.cache.changes && (await this.storageProvider.changed?.(key))) {
+        // Another process saved since we loaded: apply our unsaved changes on top of its data
+        await this.mergeStored();
+        this.cache.compact = true;
+      }
+
+      changes = this.cache.changes;
+      if (changes) this.cache.changes = emptyChanges();
+      const maxSizeBytes = (this.options.maxFileSizeMB || 500) * 1024 * 1024;
+      if (changes && !this.cache.compact && this.storageProvider.append) {
+        const operations = this.pendingOperations(changes);
+        // Changes made while writing mark the store dirty again
+        this.cache.dirty = false;
+        const compact = await this.storageProvider.append(key, operations);
+        if (!compact && !this.exceedsMaxSize(operations, maxSizeBytes)) {
+          if (this.options.debug) {
+            console.log(`[LiteMemoryVectorStore] Appended ${operations.length} operations to the log`);
+          }
+          this.cache.events.emit('save', { count: this.cache.store.size, appended: true });
+          return;
+        }
+      }
+
+      // Operations are part of the snapshot; until it is written, only a full save is consistent
+      this.cache.compact = true;
+
+      let serializedData = Array.from(this.cache.store.entries(), serializeItem);
+      const snapshot = this.snapshot(serializedData);
+      let dataSize = this.snapshotSize(snapshot);
+
+      if (dataSize > maxSizeBytes && serializedData.length > 0) {
+        if (this.options.debug) {
+          console.log(
+            `[LiteMemoryVectorStore] Data size (${this.formatSize(dataSize)}) exceeds limit (${this.formatSize(maxSizeBytes)})`
+          );
+        }
+
+        if (this.options.eviction === 'none') {
+          throw new StoreFullError(
+            `${this.formatSize(dataSize)} exceeds maxFileSizeMB (${this.formatSize(maxSizeBytes)})`
+          );
+        }
+
+        // Subtract each evicted item's share instead of measuring the whole snapshot after every removal.
+        // Separators are not counted, so measure again and repeat in case the estimate fell short
+        const baseSize = this.snapshotSize({ ...snapshot, items: [] });
+        while (dataSize > maxSizeBytes && serializedData.length > 0) {
+          const positions = new Map(serializedData.map((item, i) => [item[3]!, i]));
+          const evicted = new Set<string>();
+          for (const id of this.evictionCandidates()) {
+            if (dataSize <= maxSizeBytes) break;
+            dataSize -= this.snapshotSize({ ...snapshot, items: [serializedData[positions.get(id)!]] }) - baseSize;
+            evicted.add(id);
+          }
+          serializedData = serializedData.filter((item) => !evicted.has(item[3]!));
+          snapshot.items = serializedData;
+          dataSize = this.snapshotSize(snapshot);
+          this.evict(Array.from(evicted));
+        }
+
+        if (this.options.debug) {
+          console.log(
+            `[LiteMemoryVectorStore] Trimmed to ${serializedData.length} items (${this.formatSize(dataSize)})`
+          );
+        }
+      }
+
+      if (this.cache.index) {
+        snapshot.index = this.cache.index.toJSON(serializedData.map((item) => item[3]!));
+      }
+      if (this.cache.lexical) {
+        snapshot.lexical = this.cache.lexical.toJSON();
+      }
+
+      this.cache.dirty = false;
+      await this.storageProvider.save(key, snapshot);
+      this.cache.compact = false;
+      this.cache.savedSize = dataSize;
+      this.cache.events.emit('save', { count: serializedData.length, size: dataSize, appended: false });
+
+      if (this.options.debug) {
+        console.log(
+          `[LiteMemoryVectorStore] Save completed. ${serializedData.length} items saved (${this.formatSize(dataSize)})`
+        );
+      }
+    } catch (error) {
+      this.cache.dirty = true;
+      if (changes) this.restoreChanges(changes);
+      this.reportError('Error saving vector store:', error, 'save');
+      throw error;
+    } finally {
+      release?.();
+    }
+  }
+
+  /**
+   * The snapshot of the items, without the indexes.
+   */
+  private snapshot(items: MemoryVectorDataSerialize[]): MemoryVectorSnapshot {
+    const snapshot: MemoryVectorSnapshot = { version: SNAPSHOT_VERSION, metric: this.cache.metric.name, items };
+    if (this.cache.dimension !== undefined) snapshot.dimension = this.cache.dimension;
+    if (this.cache.modelId !== undefined) snapshot.modelId = this.cache.modelId;
+    const quantization = this.savedQuantization();
+    if (quantization) snapshot.quantization = quantization;
+    return snapshot;
+  }
+
+  private snapshotSize(snapshot: MemoryVectorSnapshot): number {
+    return this.storageProvider.size?.(snapshot) ?? byteLength(JSON.stringify(snapshot));
+  }
+
+  /**
+   * Whether the data outgrew maxFileSizeMB with the appended operations, so a full save has to evict documents.
+   * The appended documents are added to the size of the last full save; the whole data is only measured
+   * when that estimate, which counts replaced documents twice, exceeds the limit.
+   */
+  private exceedsMaxSize(operations: MemoryVectorLogOperation[], maxSizeBytes: number): boolean {
+    if (this.cache.savedSize !== undefined) {
+      const empty = this.snapshot([]);
+      const items = operations.flatMap((operation) => (operation.op === 'set' ? [operation.item] : []));
+      this.cache.savedSize += this.snapshotSize({ ...empty, items }) - this.snapshotSize(empty);
+      if (this.cache.savedSize <= maxSizeBytes) return false;
+    }
+    this.cache.savedSize = this.snapshotSize(this.snapshot(Array.from(this.cache.store.entries(), serializeItem)));
+    return this.cache.savedSize > maxSizeBytes;
+  }
+
+  /**
+   * Reloads the stored data, picking up what other processes saved.
+   * Changes not saved yet are applied again on top when the provider supports appending or detecting changes.
+   */
+  async reload(): Promise<void> {
+    await this.loading;
+    await this.saveSettled();
+    await this.exclusive(async () => {
+      const release = await this.storageProvider.lock?.(this.options.storagePath);
+      try {
+        await this.mergeStored();
+      } finally {
+        release?.();
+      }
+    });
+  }
+
+  private async mergeStored(): Promise<void> {
+    const key = this.options.storagePath;
+    const stored = toSnapshot((await this.storageProvider.exists(key)) ? await this.storageProvider.load(key) : []);
+    const store = this.cache.store;
+
+    // Another process may have embedded the data again with a new model
+    const dimension = stored.dimension ?? savedDimension(stored);
+    if (stored.items.length > 0) {
+      this.cache.dimension = dimension;
+      this.cache.modelId = stored.modelId ?? this.cache.modelId;
+    }
+    const quantization = this.savedQuantization();
+    if (quantization && stored.quantization !== quantization) this.cache.compact = true;
+    // Unsaved documents are read before the arena is replaced, then stored again in the new one
+    const changes = this.cache.changes;
+    const operations = changes ? this.pendingOperations({ ...changes, accessed: new Set() }) : [];
+    // Documents only returned since keep the other process's version, with the later access stats
+    const accessed = new Map<string, Pick<MemoryVectorEntryAttributes, 'accessedAt' | 'hits'>>();
+    for (const id of changes?.accessed ?? []) {
+      const entry = store.get(id);
+      if (entry && !changes!.ids.has(id)) accessed.set(id, { accessedAt: entry.accessedAt, hits: entry.hits });
+    }
+    store.clear();
+    this.cache.arena = undefined;
+    const set = (id: string, entry: StoreEntry<T>) => {
+      const previous = store.get(id);
+      if (previous) releaseVector(previous.vector);
+      store.set(id, entry);
+    };
+    for (const item of stored.items) {
+      const [id, entry] = deserializeItem<T>(item, (vector, scale) =>
+        this.restoreVector(vector, scale, stored.quantization, dimension)
+      );
+      set(id, entry);
+    }
+    for (const operation of operations) {
+      if (operation.op === 'set') {
+        const [id, entry] = deserializeItem<T>(operation.item, (vector, scale) =>
+          this.restoreVector(vector, scale, quantization, this.cache.dimension)
+        );
+        set(id, entry);
+      } else if (operation.op === 'delete') {
+        const entry = store.get(operation.id);
+        if (entry) releaseVector(entry.vector);
+        store.delete(operation.id);
+      } else {
+        store.clear();
+        this.cache.arena = undefined;
+      }
+    }
+    for (const [id, stats] of accessed) {
+      const entry = store.get(id);
+      if (!entry) continue;
+      entry.accessedAt = Math.max(entry.accessedAt, stats.accessedAt);
+      entry.hits = Math.max(entry.hits, stats.hits);
+    }
+    this.countCollections();
+    this.cache.nextExpiry = 0;
+
+    const lexical = this.cache.lexical !== undefined;
+    this.cache.index = undefined;
+    this.cache.lexical = undefined;
+    this.buildIndex();
+    if (lexical) this.buildLexicalIndex();
+    if (this.options.debug) console.log(`[LiteMemoryVectorStore] Reloaded ${store.size} items.`);
+    this.cache.events.emit('load', { count: store.size, reload: true });
+  }
+
+  /**
+   * Operations applying the pending changes, with the documents' current entries.
+   */
+  private pendingOperations(changes: PendingChanges): MemoryVectorLogOperation[] {
+    const operations: MemoryVectorLogOperation[] = changes.cleared ? [{ op: 'clear' }] : [];
+    for (const id of changes.ids) {
+      const entry = this.cache.store.get(id);
+      operations.push(entry ? { op: 'set', item: serializeItem([id, entry]) } : { op: 'delete', id });
+    }
+    for (const id of changes.accessed) {
+      const entry = this.cache.store.get(id);
+      if (entry && !changes.ids.has(id)) operations.push({ op: 'set', item: serializeItem([id, entry]) });
+    }
+    return operations;
+  }
+
+  /**
+   * Tracks again the changes of a failed save, unless the store was cleared since.
+   */
+  private restoreChanges(changes: PendingChanges): void {
+    const current = this.cache.changes;
+    if (!current || current.cleared) return;
+    current.cleared = changes.cleared;
+    for (const id of changes.ids) current.ids.add(id);
+    for (const id of changes.accessed) current.accessed.add(id);
+  }
+
+  private watchStorage(): void {
+    const key = this.options.storagePath;
+    const cache = this.cache;
+    cache.unwatch = this.storageProvider.watch!(key, () => {
+      // A save usually fires several events in a row
+      clearTimeout(cache.reloadTimer);
+      cache.reloadTimer = setTimeout(async () => {
+        try {
+          if (await this.storageProvider.changed?.(key)) await this.reload();
+        } catch (error) {
+          this.reportError('Error reloading vector store:', error, 'reload');
+        }
+      }, 100);
+    });
+  }
+
   private formatSize(bytes: number): string {
     if (bytes < 1024) return `${bytes} bytes`;
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`;
@@ -252,28 +1934,125 @@ export class VectorStore<T = any> implements MemoryVectorStore<T> {
   }
 
   /**
-   * Load vector data from disk
+   * Load vector data from storage.
+   * Runs synchronously with synchronous providers, so the data is available right after construction.
+   * Returns a promise when the provider is asynchronous.
    * @private
    */
-  private load(): void {
+  private load(): void | Promise<void> {
     if (!this.options.storagePath) return;
+    const key = this.options.storagePath;
 
     try {
-      if (this.storageProvider.exists(this.options.storagePath)) {
-        const data = this.storageProvider.load(this.options.storagePath!);
-        for (const vectorData of data) {
-          this.cache.store.set(vectorData[0], {
-            vector: vectorData[1],
-            metadata: vectorData[2],
-          });
-        }
-        if (this.options.debug) console.log(`[LiteMemoryVectorStore] Loaded ${this.cache.store.size} items.`);
-      } else if (this.options.debug) {
-        console.log(`[LiteMemoryVectorStore] No data file found at: ${this.options.storagePath}`);
+      const exists = this.storageProvider.exists(key);
+      if (isPromise(exists)) {
+        return exists
+          .then((found) => (found ? this.storageProvider.load(key) : undefined))
+          .then((data) => this.applyLoadedData(data))
+          .catch((error) => this.handleLoadError(error));
+      }
+      if (!exists) return this.applyLoadedData(undefined);
+
+      const data = this.storageProvider.load(key);
+      if (isPromise(data)) {
+        return data.then((loaded) => this.applyLoadedData(loaded)).catch((error) => this.handleLoadError(error));
       }
+      this.applyLoadedData(data);
     } catch (error) {
-      console.error('Error loading vector store:', error);
-      this.cache.store.clear();
+      this.handleLoadError(error);
+    }
+  }
+
+  private applyLoadedData(loaded: MemoryVectorStoreData | undefined): void {
+    // Codes appended to the log can only be read back once a full save records the quantization
+    const quantization = this.savedQuantization();
+    if (quantization && (loaded === undefined || toSnapshot(loaded).quantization !== quantization)) {
+      this.cache.compact = true;
+    }
+    if (loaded === undefined) {
+      if (this.options.debug) {
+        console.log(`[LiteMemoryVectorStore] No data file found at: ${this.options.storagePath}`);
+      }
+      return;
+    }
+
+    // Items saved by earlier versions have no ids the log could refer to
+    if (Array.isArray(loaded) && loaded.length > 0) this.cache.compact = true;
+
+    const data = toSnapshot(loaded);
+    if (data.metric !== undefined && data.items.length > 0) {
+      this.checkMetric(data.metric);
+      if (this.options.metric === undefined && !isBuiltinMetric(data.metric)) {
+        throw new MemoryVectorStoreError(
+          `Vector store was saved with the custom "${data.metric}" metric, pass it as the metric option`
+        );
+      }
+      this.cache.metric = resolveMetric(this.options.metric ?? (data.metric as MemoryVectorMetricName));
+    }
+
+    const dimension = data.dimension ?? savedDimension(data);
+    if (data.modelId !== undefined && this.options.modelId !== undefined && data.modelId !== this.options.modelId) {
+      // Keep the data so reembedAll can migrate it
+      this.reportError(
+        'Error loading vector store:',
+        new ModelMismatchError(this.options.modelId, data.modelId),
+        'load'
+      );
+    } else if (
+      dimension !== undefined &&
+      this.options.dimension !== undefined &&
+      dimension !== this.options.dimension
+    ) {
+      throw new DimensionMismatchError(this.options.dimension, dimension);
+    }
+    this.cache.dimension = dimension ?? this.options.dimension;
+    this.cache.modelId = data.modelId ?? this.options.modelId;
+    for (const vectorData of data.items) {
+      const [id, entry] = deserializeItem<T>(vectorData, (vector, scale) =>
+        this.restoreVector(vector, scale, data.quantization, dimension)
+      );
+      this.cache.store.set(id, entry);
+    }
+    this.countCollections();
+    this.cache.nextExpiry = 0;
+    this.buildIndex(data.index);
+    if (data.lexical) this.buildLexicalIndex(data.lexical);
+    if (this.options.debug) console.log(`[LiteMemoryVectorStore] Loaded ${this.cache.store.size} items.`);
+
+    // Synchronous providers load while the store is constructed: wait for listeners registered right after
+    const { events } = this.cache;
+    const count = this.cache.store.size;
+    queueMicrotask(() => events.emit('load', { count, reload: false }));
+  }
+
+  private handleLoadError(error: unknown): void {
+    if (error instanceof StoreCorruptedError) {
+      this.reportError('Error loading vector store:', error, 'load');
+      if (error.backup) {
+        this.applyLoadedData(error.backup);
+        // Rewrite the snapshot from the recovered data on the next save
+        this.cache.dirty = true;
+        this.cache.compact = true;
+      }
+      return;
+    }
+    if (error instanceof MemoryVectorStoreError) throw error;
+    this.reportError('Error loading vector store:', error, 'load');
+    this.cache.store.clear();
+    this.cache.collections.clear();
+    this.cache.arena = undefined;
+  }
+
+  /**
+   * Passes an error to the onError option and the error listeners, or logs it when neither is set.
+   */
+  private reportError(message: string, error: unknown, operation: MemoryVectorStoreEvents['error']['operation']): void {
+    const reported = error instanceof Error ? error : new Error(String(error));
+    const listened = this.cache.events.emit('error', { error: reported, operation });
+    if (this.options.onError) {
+      this.options.onError(reported);
+    } else if (!listened) {
+      console.error(message, error);
     }
   }
 }
@@ -1,17 +1,34 @@
 /**
  * Represents a document to be stored in the vector store.
  * Contains the main content as a string and optional metadata of generic type T.
+ * Documents added without an id get one derived from their content.
  *
  * @template T The type of metadata associated with the document, defaults to any
  * @typedef {Object} MemoryDocument
+ * @property {string} [id] - Stable identifier of the document, independent of its content
  * @property {string} content - The textual content of the document
  * @property {T} [metadata] - Optional metadata associated with the document
  */
 export type MemoryDocument<T = any> = {
+  id?: string;
   content: string;
   metadata?: T;
 };
 
+/**
+ * Partial update applied to a stored document.
+ * Changing the content re-embeds the document while keeping its id.
+ *
+ * @template T The type of metadata associated with the document
+ * @typedef {Object} MemoryDocumentPatch
+ * @property {string} [content] - The new content of the document
+ * @property {T} [metadata] - The new metadata, replacing the previous one
+ */
+export type MemoryDocumentPatch<T = any> = {
+  content?: string;
+  metadata?: T;
+};
+
 /**
  * A function type that converts text content to a vector representation.
  * Can return either a Promise for asynchronous processing or a direct array for synchronous processing.
@@ -22,6 +39,16 @@ export type MemoryDocument<T = any> = {
  */
 export type MemoryVectorParser = (content: string) => Promise<number[]> | number[];
 
+/**
+ * A function type that converts several text contents to vectors in a single call.
+ * Useful for embedding endpoints that accept batched input, such as the OpenAI embeddings API.
+ *
+ * @typedef {Function} MemoryVectorBatchParser
+ * @param {string[]} contents - The text contents to convert
+ * @returns {Promise<number[][]>|number[][]} One vector per content, in the same order as the input
+ */
+export type MemoryVectorBatchParser = (contents: string[]) => Promise<number[][]> | number[][];
+
 /**
  * Represents a vector data item with the original document and its vector representation.
  *
@@ -35,14 +62,676 @@ export interface MemoryVectorData<T = any> {
   vector: number[];
 }
 
+type PathDepth = [never, 0, 1, 2, 3, 4];
+
+/**
+ * Dotted paths to the fields of a metadata type, e.g. `'author.name'`.
+ * Resolves to `string` for untyped (`any`) metadata.
+ *
+ * @template T The metadata type
+ */
+export type MemoryMetadataPath<T, D extends number = 4> = [D] extends [never]
+  ? never
+  : 0 extends 1 & T
+    ? string
+    : T extends readonly any[] | Date
+      ? never
+      : T extends object
+        ? {
+            [K in keyof T & string]:
+              | K
+              | (NonNullable<T[K]> extends object
+                  ? `${K}.${MemoryMetadataPath<NonNullable<T[K]>, PathDepth[D]>}`
+                  : never);
+          }[keyof T & string]
+        : never;
+
+/**
+ * The type of the metadata field found at a dotted path.
+ *
+ * @template T The metadata type
+ * @template P The dotted path
+ */
+export type MemoryMetadataPathValue<T, P extends string> = 0 extends 1 & T
+  ? any
+  : P extends keyof T
+    ? T[P]
+    : P extends `${infer K}.${infer Rest}`
+      ? K extends keyof T
+        ? MemoryMetadataPathValue<NonNullable<T[K]>, Rest>
+        : never
+      : never;
+
+/**
+ * Comparison operators available on a single metadata field.
+ * When the field holds an array, an operator matches if any element matches.
+ *
+ * @template V The type of the field
+ */
+export interface MemoryFilterOperators<V> {
+  $eq?: V | null;
+  $ne?: V | null;
+  $in?: V[];
+  $nin?: V[];
+  $gt?: V;
+  $gte?: V;
+  $lt?: V;
+  $lte?: V;
+  $exists?: boolean;
+}
+
+/**
+ * Condition on a single metadata field: either a value to match exactly, or an operator object.
+ *
+ * @template V The type of the field
+ */
+export type MemoryFilterCondition<V> =
+  | V
+  | (V extends readonly (infer E)[] ? E | MemoryFilterOperators<E> : never)
+  | MemoryFilterOperators<V>;
+
+/**
+ * Serializable MongoDB-style filter over document metadata.
+ * Keys are (dotted) metadata paths, combined with `$and`, `$or` and `$not`.
+ *
+ * @template T The metadata type
+ *
+ * @example
+ * const filter: MemoryMetadataFilter<Product> = {
+ *   brand: { $in: ['Nike', 'Adidas'] },
+ *   'price.amount': { $lte: 150 },
+ *   $not: { discontinued: true },
+ * };
+ */
+export type MemoryMetadataFilter<T = any> = {
+  [P in MemoryMetadataPath<T>]?: MemoryFilterCondition<MemoryMetadataPathValue<T, P>>;
+} & {
+  $and?: MemoryMetadataFilter<T>[];
+  $or?: MemoryMetadataFilter<T>[];
+  $not?: MemoryMetadataFilter<T>;
+};
+
+/**
+ * Filter accepted by search methods: a predicate function or a declarative metadata filter.
+ *
+ * @template T The metadata type
+ */
+export type MemoryVectorSearchFilter<T = any> = ((doc: MemoryDocument<T>) => boolean) | MemoryMetadataFilter<T>;
+
+/**
+ * Options of a similarity search.
+ *
+ * @template T The metadata type
+ * @interface MemoryVectorSearchOptions
+ * @property {number} [k] - Maximum number of results, all matching documents if omitted
+ * @property {number} [minScore] - Minimum score of the results. For distance metrics (`euclidean`, `manhattan`) this is the maximum distance
+ * @property {number} [offset] - Number of best results to skip, for paging
+ * @property {MemoryVectorSearchFilter<T>} [filter] - Predicate or metadata filter applied to the documents
+ * @property {boolean} [includeVectors] - Whether to include the stored vector in each result
+ * @property {string[]|'*'} [collections] - Search these collections, or every document with '*', instead of the store's own
+ */
+export interface MemoryVectorSearchOptions<T = any> {
+  k?: number;
+  minScore?: number;
+  offset?: number;
+  filter?: MemoryVectorSearchFilter<T>;
+  includeVectors?: boolean;
+  collections?: string[] | '*';
+}
+
+/**
+ * Options of a Maximal Marginal Relevance search.
+ *
+ * @template T The metadata type
+ * @interface MemoryVectorMMRSearchOptions
+ * @property {number} [k] - Number of results, defaults to 4
+ * @property {number} [fetchK] - Number of candidates fetched by cosine similarity before diversifying, defaults to 20
+ * @property {number} [lambda] - Trade-off between relevance (1) and diversity (0), defaults to 0.5
+ * @property {MemoryVectorSearchFilter<T>} [filter] - Predicate or metadata filter applied to the documents
+ * @property {string[]|'*'} [collections] - Search these collections, or every document with '*', instead of the store's own
+ */
+export interface MemoryVectorMMRSearchOptions<T = any> {
+  k?: number;
+  fetchK?: number;
+  lambda?: number;
+  filter?: MemoryVectorSearchFilter<T>;
+  collections?: string[] | '*';
+}
+
+/**
+ * Options of a parent document search.
+ *
+ * @template T The metadata type
+ * @interface MemoryVectorParentSearchOptions
+ * @property {number} [k] - Number of documents, defaults to 4
+ * @property {number} [fetchK] - Number of chunks fetched before grouping them by document, defaults to 4 * k
+ * @property {number} [minScore] - Minimum score of the matched chunks
+ * @property {number} [window] - Number of neighbouring chunks added on each side of every matched chunk, defaults to 0
+ * @property {boolean} [fullDocument] - Return every chunk of the document instead of the matched ones
+ * @property {MemoryVectorSearchFilter<T>} [filter] - Predicate or metadata filter applied to the chunks
+ * @property {string[]|'*'} [collections] - Search these collections, or every document with '*', instead of the store's own
+ */
+export interface MemoryVectorParentSearchOptions<T = any> {
+  k?: number;
+  fetchK?: number;
+  minScore?: number;
+  window?: number;
+  fullDocument?: boolean;
+  filter?: MemoryVectorSearchFilter<T>;
+  collections?: string[] | '*';
+}
+
+/**
+ * A document found by a parent document search, with the passages around its matched chunks.
+ * Documents added without `addDocument` are their own parent.
+ *
+ * @template T The metadata type
+ * @interface MemoryVectorParentSearchResult
+ * @property {string} parentId - Id of the document
+ * @property {string} content - The matched chunks and their neighbours in document order, or the whole document
+ * @property {number} score - Best score among the matched chunks
+ * @property {T} [metadata] - Metadata of the best matched chunk
+ * @property {MemoryVectorSearchResult<T>[]} chunks - The matched chunks, best first
+ * @property {string} [collection] - Collection of the document, when it is not the default one
+ */
+export interface MemoryVectorParentSearchResult<T = any> {
+  parentId: string;
+  content: string;
+  score: number;
+  metadata?: T;
+  chunks: MemoryVectorSearchResult<T>[];
+  collection?: string;
+}
+
+/**
+ * Options of a hybrid (lexical + vector) search.
+ * Scores are fused by weighted sum of normalized scores, or by Reciprocal Rank Fusion when `rrf` is set.
+ *
+ * @template T The metadata type
+ * @interface MemoryVectorHybridSearchOptions
+ * @property {number} [k] - Number of results, defaults to 4
+ * @property {number} [fetchK] - Number of candidates taken from each ranking, defaults to 4 * k
+ * @property {number} [alpha] - Weight of the vector score in the weighted sum, the lexical score gets 1 - alpha. Defaults to 0.5
+ * @property {boolean|number} [rrf] - Use Reciprocal Rank Fusion, a number sets its damping constant (default 60)
+ * @property {MemoryVectorSearchFilter<T>} [filter] - Predicate or metadata filter applied to the documents
+ * @property {string[]|'*'} [collections] - Search these collections, or every document with '*', instead of the store's own
+ */
+export interface MemoryVectorHybridSearchOptions<T = any> {
+  k?: number;
+  fetchK?: number;
+  alpha?: number;
+  rrf?: boolean | number;
+  filter?: MemoryVectorSearchFilter<T>;
+  collections?: string[] | '*';
+}
+
+/**
+ * A document returned by a hybrid search, with the fused score and the scores it was computed from.
+ *
+ * @template T The metadata type
+ * @typedef {Object} MemoryVectorHybridSearchResult
+ */
+export type MemoryVectorHybridSearchResult<T = any> = MemoryDocument<T> & {
+  score: number;
+  collection?: string;
+  vectorScore: number;
+  lexicalScore: number;
+};
+
+/**
+ * A document returned by a search, with its score, its collection unless it is in the default one
+ * and, on request, its vector.
+ *
+ * @template T The metadata type
+ * @typedef {Object} MemoryVectorSearchResult
+ */
+export type MemoryVectorSearchResult<T = any> = MemoryDocument<T> & {
+  score: number;
+  collection?: string;
+  vector?: number[];
+};
+
+/**
+ * Options for adding documents.
+ *
+ * @interface MemoryVectorAddOptions
+ * @property {number} [ttlMs] - Time to live in milliseconds, overrides the store's defaultTtlMs
+ * @property {number} [expiresAt] - When the document expires, in milliseconds since the epoch, takes precedence over ttlMs
+ */
+export interface MemoryVectorAddOptions {
+  ttlMs?: number;
+  expiresAt?: number;
+}
+
+/**
+ * Options for adding several documents at once.
+ *
+ * @interface MemoryVectorAddManyOptions
+ * @property {number} [concurrency] - Maximum number of parser calls running at the same time, defaults to 4
+ * @property {MemoryVectorBatchParser} [batchParser] - Optional parser used instead of the store's parser to embed whole batches
+ * @property {number} [batchSize] - Number of contents passed to each batchParser call, defaults to 100
+ */
+export interface MemoryVectorAddManyOptions extends MemoryVectorAddOptions {
+  concurrency?: number;
+  batchParser?: MemoryVectorBatchParser;
+  batchSize?: number;
+}
+
+/**
+ * Result of adding several documents at once.
+ * Documents whose embedding failed are reported in `failed` and are not stored.
+ *
+ * @template T The type of metadata associated with the documents
+ * @interface MemoryVectorAddManyResult
+ * @property {MemoryVectorData<T>[]} added - The stored documents with their vectors, in input order
+ * @property {Array} failed - The documents that could not be embedded, with their input index and the error
+ */
+export interface MemoryVectorAddManyResult<T = any> {
+  added: MemoryVectorData<T>[];
+  failed: Array<{ index: number; document: MemoryDocument<T>; error: unknown }>;
+}
+
+/**
+ * Options passed to a text splitter.
+ *
+ * @interface MemoryTextSplitterOptions
+ * @property {number} chunkSize - Maximum number of characters of a chunk
+ * @property {number} overlap - Number of characters a chunk may repeat from the end of the previous one
+ */
+export interface MemoryTextSplitterOptions {
+  chunkSize: number;
+  overlap: number;
+}
+
+/**
+ * A function splitting a text into chunks, in order.
+ * Chunks that are unchanged substrings of the text get their position recorded in the chunk metadata.
+ *
+ * @typedef {Function} MemoryTextSplitter
+ * @param {string} text - The text to split
+ * @param {MemoryTextSplitterOptions} options - Chunk size and overlap
+ * @returns {string[]} The chunks
+ */
+export type MemoryTextSplitter = (text: string, options: MemoryTextSplitterOptions) => string[];
+
+/**
+ * Built-in text splitters:
+ * - 'recursive': splits at paragraphs, then lines, then words, then characters, until the pieces fit
+ * - 'sentence': splits at sentence ends, cutting sentences longer than a chunk between words
+ * - 'markdown': starts a chunk at every heading, splitting longer sections like 'recursive'
+ *
+ * @typedef {string} MemoryTextSplitterName
+ */
+export type MemoryTextSplitterName = 'recursive' | 'sentence' | 'markdown';
+
+/**
+ * Position of a chunk within the document it was split from, stored in the `chunk` metadata field.
+ *
+ * @interface MemoryChunkInfo
+ * @property {string} parentId - Id of the document the chunk was split from
+ * @property {number} index - Position of the chunk among the chunks of the document
+ * @property {number} count - Number of chunks of the document
+ * @property {number} [start] - Offset of the chunk's first character in the document, unknown when the splitter changed the text
+ * @property {number} [end] - Offset after the chunk's last character in the document
+ */
+export interface MemoryChunkInfo {
+  parentId: string;
+  index: number;
+  count: number;
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Options of `reembedAll`.
+ *
+ * @interface MemoryVectorReembedOptions
+ * @property {number} [concurrency] - Maximum number of parser calls running at the same time, defaults to 4
+ * @property {MemoryVectorBatchParser} [batchParser] - Optional parser used instead of the store's parser to embed whole batches
+ * @property {number} [batchSize] - Number of contents passed to each batchParser call, defaults to 100
+ * @property {Function} [onProgress] - Called with the number of embedded documents and the total after each parser call
+ */
+export interface MemoryVectorReembedOptions {
+  concurrency?: number;
+  batchParser?: MemoryVectorBatchParser;
+  batchSize?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Options for adding a document split into chunks.
+ *
+ * @template T The type of metadata associated with the document
+ * @interface MemoryVectorAddDocumentOptions
+ * @property {string} [id] - Id of the document, derived from its text by default. Chunks get `{id}#{index}`
+ * @property {MemoryTextSplitterName|MemoryTextSplitter} [splitter] - How to split the text, defaults to 'recursive'
+ * @property {number} [chunkSize] - Maximum number of characters of a chunk, defaults to 1000
+ * @property {number} [overlap] - Characters a chunk may repeat from the previous one, defaults to 20% of chunkSize
+ * @property {T} [metadata] - Metadata of every chunk, along with the `chunk` field
+ */
+export interface MemoryVectorAddDocumentOptions<T = any> extends MemoryVectorAddManyOptions {
+  id?: string;
+  splitter?: MemoryTextSplitterName | MemoryTextSplitter;
+  chunkSize?: number;
+  overlap?: number;
+  metadata?: T;
+}
+
+/**
+ * Result of adding a document split into chunks.
+ *
+ * @template T The type of metadata associated with the document
+ * @interface MemoryVectorAddDocumentResult
+ * @property {string} parentId - Id of the document, shared by its chunks
+ */
+export interface MemoryVectorAddDocumentResult<T = any> extends MemoryVectorAddManyResult<T> {
+  parentId: string;
+}
+
+/**
+ * Bookkeeping kept per document for the eviction policies.
+ *
+ * @interface MemoryVectorEntryAttributes
+ * @property {number} createdAt - When the document was first added, in milliseconds since the epoch
+ * @property {number} accessedAt - When the document was last returned by a search or get
+ * @property {number} hits - How many times the document was returned by a search or get
+ * @property {number} [expiresAt] - When the document expires and stops being returned, ordering the 'ttl' policy
+ */
+export interface MemoryVectorEntryAttributes {
+  createdAt: number;
+  accessedAt: number;
+  hits: number;
+  expiresAt?: number;
+}
+
 /**
  * Serialized format of vector data for efficient storage.
- * A tuple where the first element is the original document (with content and metadata)
- * and the second element is the vector representation.
+ * A tuple of the document content, its vector representation, its metadata, its id and its attributes.
+ * The id and attributes are optional so data saved by earlier versions (keyed on content) still loads.
+ *
+ * @typedef {[string, number[], any, string, MemoryVectorEntryAttributes]} MemoryVectorDataSerialize
+ */
+export type MemoryVectorDataSerialize = [
+  content: string,
+  vector: number[],
+  metadata?: any,
+  id?: string,
+  attributes?: MemoryVectorItemAttributes,
+];
+
+/**
+ * Attributes saved with a document. Quantized vectors are saved as their codes plus the scale they are multiplied by.
+ *
+ * @interface MemoryVectorItemAttributes
+ * @property {number} [scale] - Scale of the quantized vector, set when the snapshot records a quantization
+ */
+export interface MemoryVectorItemAttributes extends MemoryVectorEntryAttributes {
+  scale?: number;
+}
+
+/**
+ * Policy choosing which documents to drop when the store exceeds `maxDocuments` or `maxFileSizeMB`.
+ * - `fifo`: oldest added first
+ * - `lru`: least recently returned by a search first
+ * - `lfu`: least often returned by a search first, then least recently
+ * - `ttl`: closest to expiring first, then oldest added
+ * - `none`: never drop anything, adding or saving past the limits throws a StoreFullError
+ *
+ * @typedef {'fifo'|'lru'|'lfu'|'ttl'|'none'} MemoryVectorEvictionPolicy
+ */
+export type MemoryVectorEvictionPolicy = 'fifo' | 'lru' | 'lfu' | 'ttl' | 'none';
+
+/**
+ * Options of the approximate nearest neighbor index.
+ *
+ * @interface MemoryVectorIndexOptions
+ * @property {'hnsw'} type - Index type, only HNSW is available
+ * @property {number} [M] - Maximum number of connections per node and layer, defaults to 16
+ * @property {number} [efConstruction] - Candidate list size while inserting, defaults to 200
+ * @property {number} [efSearch] - Candidate list size while searching, defaults to 50
+ */
+export interface MemoryVectorIndexOptions {
+  type: 'hnsw';
+  M?: number;
+  efConstruction?: number;
+  efSearch?: number;
+}
+
+/**
+ * A function splitting text into the terms indexed by the lexical (BM25) index.
+ *
+ * @typedef {Function} MemoryTokenizer
+ * @param {string} text - The text to split
+ * @returns {string[]} The terms of the text, duplicates included
+ */
+export type MemoryTokenizer = (text: string) => string[];
+
+/**
+ * Options of the lexical (BM25) index used by hybrid search.
+ *
+ * @interface MemoryVectorLexicalOptions
+ * @property {MemoryTokenizer} [tokenizer] - Splits content and queries into terms, defaults to lowercased letter/digit runs
+ * @property {number} [k1] - BM25 term frequency saturation, defaults to 1.2
+ * @property {number} [b] - BM25 document length normalization, defaults to 0.75
+ */
+export interface MemoryVectorLexicalOptions {
+  tokenizer?: MemoryTokenizer;
+  k1?: number;
+  b?: number;
+}
+
+/**
+ * Persisted lexical index: the term frequencies of every document.
+ *
+ * @interface MemoryVectorLexicalSnapshot
+ */
+export interface MemoryVectorLexicalSnapshot {
+  k1: number;
+  b: number;
+  /** Tokenizer the terms come from; only those of the default one are reused, and snapshots without it are rebuilt */
+  tokenizer?: 'default' | 'custom';
+  documents: Array<[id: string, frequencies: Array<[term: string, frequency: number]>]>;
+}
+
+/**
+ * Persisted HNSW graph. Node positions match the order of the snapshot items.
+ *
+ * @interface MemoryVectorIndexSnapshot
+ */
+export interface MemoryVectorIndexSnapshot {
+  type: 'hnsw';
+  M: number;
+  efConstruction: number;
+  entryPoint: number;
+  levels: number[];
+  neighbors: number[][][];
+}
+
+/**
+ * Persisted state of a vector store: the serialized documents plus the settings they depend on.
+ *
+ * @interface MemoryVectorSnapshot
+ * @property {number} version - Version of the snapshot format
+ * @property {string} metric - Name of the metric the vectors are scored with
+ * @property {MemoryVectorDataSerialize[]} items - The serialized documents
+ * @property {MemoryVectorIndexSnapshot} [index] - The approximate nearest neighbor graph, when enabled
+ * @property {MemoryVectorLexicalSnapshot} [lexical] - The BM25 index, when enabled
+ * @property {number} [dimension] - Length of every stored vector
+ * @property {string} [modelId] - Identifier of the embedding model the vectors were computed with
+ * @property {MemoryVectorQuantizationType} [quantization] - Quantization of the saved vectors, absent when they are full precision
+ */
+export interface MemoryVectorSnapshot {
+  version: number;
+  metric: string;
+  items: MemoryVectorDataSerialize[];
+  index?: MemoryVectorIndexSnapshot;
+  lexical?: MemoryVectorLexicalSnapshot;
+  dimension?: number;
+  modelId?: string;
+  quantization?: MemoryVectorQuantizationType;
+}
+
+/**
+ * Data handled by storage providers.
+ * Stores save snapshots; a bare array of items is the format written by earlier versions.
+ *
+ * @typedef {MemoryVectorSnapshot|MemoryVectorDataSerialize[]} MemoryVectorStoreData
+ */
+export type MemoryVectorStoreData = MemoryVectorSnapshot | MemoryVectorDataSerialize[];
+
+/**
+ * Encoding of persisted data: JSON text, or a header plus a contiguous vector block and a JSON block.
+ *
+ * @typedef {'json'|'binary'} MemoryVectorStorageFormat
+ */
+export type MemoryVectorStorageFormat = 'json' | 'binary';
+
+/**
+ * Precision of vectors in the binary format. Float16 halves the size at the cost of about three significant digits.
+ *
+ * @typedef {'float32'|'float16'} MemoryVectorPrecision
+ */
+export type MemoryVectorPrecision = 'float32' | 'float16';
+
+/**
+ * Thresholds of the append-only log, past which the next save compacts it into the snapshot.
+ *
+ * @interface MemoryVectorLogOptions
+ * @property {number} [maxSizeMB] - Maximum log size, defaults to 64
+ * @property {number} [compactRatio] - Maximum log size relative to the snapshot size, defaults to 0.5
+ */
+export interface MemoryVectorLogOptions {
+  maxSizeMB?: number;
+  compactRatio?: number;
+}
+
+/**
+ * A change recorded in the append-only log.
+ *
+ * @typedef {Object} MemoryVectorLogOperation
+ */
+export type MemoryVectorLogOperation =
+  | { op: 'set'; item: MemoryVectorDataSerialize }
+  | { op: 'delete'; id: string }
+  | { op: 'clear' };
+
+/**
+ * Options of the built-in file and localStorage providers.
+ *
+ * @interface MemoryVectorStorageProviderOptions
+ * @property {MemoryVectorStorageFormat} [format] - Format written on save, defaults to 'json'. Both formats are detected on load
+ * @property {MemoryVectorPrecision} [precision] - Precision of vectors in the binary format, defaults to 'float32'
+ * @property {boolean|MemoryVectorLogOptions} [log] - Node only: append changes to a log next to the snapshot instead of rewriting it
+ * @property {boolean} [backup] - Node only: keep the previous snapshot as `{key}.bak` to recover from corruption, defaults to true
+ * @property {boolean|MemoryVectorLockOptions} [lock] - Node only: guard reads and writes with a `{key}.lock` file, defaults to true
+ */
+export interface MemoryVectorStorageProviderOptions {
+  format?: MemoryVectorStorageFormat;
+  precision?: MemoryVectorPrecision;
+  log?: boolean | MemoryVectorLogOptions;
+  backup?: boolean;
+  lock?: boolean | MemoryVectorLockOptions;
+}
+
+/**
+ * Options of the advisory lock file shared by processes using the same store.
+ *
+ * @interface MemoryVectorLockOptions
+ * @property {number} [timeoutMs] - How long to wait for another process to release the lock, defaults to 5000
+ * @property {number} [staleMs] - Age after which a lock is considered abandoned, defaults to 30000
+ */
+export interface MemoryVectorLockOptions {
+  timeoutMs?: number;
+  staleMs?: number;
+}
+
+/**
+ * Names of the built-in metrics.
+ * `cosine` and `dot` are similarities (higher is better),
+ * `euclidean` and `manhattan` are distances (lower is better).
+ *
+ * @typedef {'cosine'|'dot'|'euclidean'|'manhattan'} MemoryVectorMetricName
+ */
+export type MemoryVectorMetricName = 'cosine' | 'dot' | 'euclidean' | 'manhattan';
+
+/**
+ * A function scoring two vectors. Used as a similarity (higher is better).
  *
- * @typedef {[MemoryDocument, number[]]} MemoryVectorDataSerialize
+ * @typedef {Function} MemoryVectorMetricFunction
  */
-export type MemoryVectorDataSerialize = [content: string, vector: number[], metadata?: any];
+export type MemoryVectorMetricFunction = (a: number[], b: number[]) => number;
+
+/**
+ * A named custom metric with an explicit sort direction.
+ *
+ * @interface MemoryVectorCustomMetric
+ * @property {string} name - Name persisted with the data, must stay the same between sessions
+ * @property {MemoryVectorMetricFunction} score - Function scoring two vectors
+ * @property {boolean} [higherIsBetter] - Whether higher scores mean more similar, defaults to true
+ */
+export interface MemoryVectorCustomMetric {
+  name: string;
+  score: MemoryVectorMetricFunction;
+  higherIsBetter?: boolean;
+}
+
+/**
+ * Compact representation of vectors, scored without expanding them back to full precision.
+ * - `int8`: one signed byte per value, scaled by the largest absolute value of the vector
+ * - `binary`: one bit per value, its sign, scaled by the mean absolute value of the vector
+ *
+ * @typedef {'int8'|'binary'} MemoryVectorQuantizationType
+ */
+export type MemoryVectorQuantizationType = 'int8' | 'binary';
+
+/**
+ * Options of vector quantization.
+ *
+ * @interface MemoryVectorQuantizationOptions
+ * @property {MemoryVectorQuantizationType} type - How vectors are quantized
+ * @property {number} [rerank] - Re-score the best `rerank * k` candidates with full-precision vectors, which are then
+ *   kept in memory as float32 and saved. Defaults to 0, no re-ranking
+ */
+export interface MemoryVectorQuantizationOptions {
+  type: MemoryVectorQuantizationType;
+  rerank?: number;
+}
+
+/**
+ * @typedef {'none'|MemoryVectorQuantizationType|MemoryVectorQuantizationOptions} MemoryVectorQuantization
+ */
+export type MemoryVectorQuantization = 'none' | MemoryVectorQuantizationType | MemoryVectorQuantizationOptions;
+
+/**
+ * Metric used to score vectors: a built-in metric name, a similarity function or a custom metric.
+ *
+ * @typedef {MemoryVectorMetricName|MemoryVectorMetricFunction|MemoryVectorCustomMetric} MemoryVectorMetric
+ */
+export type MemoryVectorMetric = MemoryVectorMetricName | MemoryVectorMetricFunction | MemoryVectorCustomMetric;
+
+/**
+ * Events emitted by a vector store and their payloads.
+ * Listeners are shared by the stores of every collection in the same file.
+ *
+ * @template T The metadata type
+ * @interface MemoryVectorStoreEvents
+ * @property {Object} add - Documents added or updated, with the collection they belong to
+ * @property {Object} remove - Documents removed by `remove` or `removeById`
+ * @property {Object} clear - A collection was cleared or dropped, the default one when `collection` is undefined
+ * @property {Object} save - The data was written: the number of stored documents, the snapshot size, whether the changes were appended to a log
+ * @property {Object} load - Persisted data was loaded, or reloaded after changes by another process
+ * @property {Object} evict - Documents dropped by the eviction policy or because they expired
+ * @property {Object} error - A load, save or reload failed
+ */
+export interface MemoryVectorStoreEvents<T = any> {
+  add: { documents: MemoryDocument<T>[]; collection?: string };
+  remove: { documents: MemoryDocument<T>[]; collection?: string };
+  clear: { collection?: string };
+  save: { count: number; size?: number; appended: boolean };
+  load: { count: number; reload: boolean };
+  evict: { documents: MemoryDocument<T>[]; reason: Exclude<MemoryVectorEvictionPolicy, 'none'> | 'expired' };
+  error: { error: Error; operation: 'load' | 'save' | 'reload' };
+}
 
 /**
  * Configuration options for the memory vector store.
@@ -52,17 +741,65 @@ export type MemoryVectorDataSerialize = [content: string, vector: number[], meta
  * @property {boolean} debug - Whether to log debug information
  * @property {number} maxFileSizeMB - Maximum storage size in megabytes
  * @property {string} storagePath - Path or key for storing vector data
+ * @property {MemoryVectorMetric} [metric] - Metric used to score vectors, defaults to the persisted one or 'cosine'
+ * @property {MemoryVectorIndexOptions} [index] - Approximate nearest neighbor index used by searches with a k
+ * @property {boolean|MemoryVectorLexicalOptions} [lexical] - Maintain a BM25 index for hybrid search, built on first use otherwise
+ * @property {MemoryVectorStorageProvider} [storageProvider] - Custom storage backend, replaces the environment default
+ * @property {MemoryVectorStorageFormat} [format] - Format written by the default provider, defaults to 'json'
+ * @property {MemoryVectorPrecision} [precision] - Precision of vectors in the binary format, defaults to 'float32'
+ * @property {boolean|MemoryVectorLogOptions} [log] - Node only: persist changes to an append-only log, compacted on thresholds
+ * @property {Function} [onError] - Receives load and save errors, such as a StoreCorruptedError, instead of the console.
+ *   Errors of synchronous providers while constructing the store are only reported here, before listeners can be registered
+ * @property {boolean|MemoryVectorLockOptions} [lock] - Node only: lock the file while reading and writing, defaults to true
+ * @property {boolean} [watch] - Reload when another process changes the stored data, if the provider can watch it
+ * @property {MemoryVectorEvictionPolicy} [eviction] - Documents dropped past maxDocuments or maxFileSizeMB, defaults to 'fifo'
+ * @property {number} [maxDocuments] - Maximum number of documents, unlimited by default
+ * @property {Function} [onEvict] - Receives the documents dropped by the eviction policy
+ * @property {number} [defaultTtlMs] - Time to live of documents added without ttlMs or expiresAt, unlimited by default
+ * @property {boolean} [flushOnExit] - Node only: flush pending changes on the process `beforeExit` event
+ * @property {number} [dimension] - Expected length of the vectors, taken from the stored data or the first vector by default
+ * @property {string} [modelId] - Identifier of the embedding model, saved with the data to detect model changes
+ * @property {MemoryVectorQuantization} [quantization] - Keep vectors quantized in memory and in the saved data, defaults to 'none'
  */
 export interface MemoryVectorStoreOptions {
   autoSave: boolean;
   debug: boolean;
   maxFileSizeMB: number;
   storagePath: string;
+  metric?: MemoryVectorMetric;
+  index?: MemoryVectorIndexOptions;
+  lexical?: boolean | MemoryVectorLexicalOptions;
+  storageProvider?: MemoryVectorStorageProvider;
+  format?: MemoryVectorStorageFormat;
+  precision?: MemoryVectorPrecision;
+  log?: boolean | MemoryVectorLogOptions;
+  onError?: (error: Error) => void;
+  lock?: boolean | MemoryVectorLockOptions;
+  watch?: boolean;
+  eviction?: MemoryVectorEvictionPolicy;
+  maxDocuments?: number;
+  onEvict?: (documents: MemoryDocument[]) => void;
+  defaultTtlMs?: number;
+  flushOnExit?: boolean;
+  dimension?: number;
+  modelId?: string;
+  quantization?: MemoryVectorQuantization;
+}
+
+/**
+ * Configuration options for the browser vector store.
+ *
+ * @interface BrowserMemoryVectorStoreOptions
+ * @property {'localStorage'|'indexedDB'} [storage] - Built-in browser backend, defaults to 'localStorage'
+ */
+export interface BrowserMemoryVectorStoreOptions extends MemoryVectorStoreOptions {
+  storage?: 'localStorage' | 'indexedDB';
 }
 
 /**
  * Interface for storage providers that handle persistence of vector data.
- * Implementations can target different storage backends (filesystem, localStorage, etc).
+ * Implementations can target different storage backends (filesystem, localStorage, IndexedDB, etc).
+ * Every method may be synchronous or return a promise.
  *
  * @interface MemoryVectorStorageProvider
  */
@@ -71,28 +808,124 @@ export interface MemoryVectorStorageProvider {
    * Saves serialized vector data to the storage.
    *
    * @param {string} key - The key or path where data should be stored
-   * @param {MemoryVectorDataSerialize[]} data - The serialized vector data to save
-   * @returns {void}
+   * @param {MemoryVectorStoreData} data - The serialized vector data to save
+   * @returns {void|Promise<void>}
    */
-  save(key: string, data: MemoryVectorDataSerialize[]): void;
+  save(key: string, data: MemoryVectorStoreData): void | Promise<void>;
 
   /**
    * Loads serialized vector data from storage.
    *
    * @param {string} key - The key or path from where to load data
-   * @returns {MemoryVectorDataSerialize[]} The loaded serialized vector data
+   * @returns {MemoryVectorStoreData|Promise<MemoryVectorStoreData>} The loaded serialized vector data
    */
-  load(key: string): MemoryVectorDataSerialize[];
+  load(key: string): MemoryVectorStoreData | Promise<MemoryVectorStoreData>;
 
   /**
    * Checks if data exists at the specified key/path.
    *
    * @param {string} key - The key or path to check
-   * @returns {boolean} True if data exists, false otherwise
+   * @returns {boolean|Promise<boolean>} True if data exists, false otherwise
+   */
+  exists(key: string): boolean | Promise<boolean>;
+
+  /**
+   * Computes how many bytes the data takes once saved, used to enforce maxFileSizeMB.
+   * Defaults to the length of its JSON text when not implemented.
+   *
+   * @param {MemoryVectorStoreData} data - The serialized vector data
+   * @returns {number} Size in bytes
    */
-  exists(key: string): boolean;
+  size?(data: MemoryVectorStoreData): number;
+
+  /**
+   * Appends changes made since the last save instead of rewriting the whole data.
+   * `load` must return the data with the appended changes applied.
+   *
+   * @param {string} key - The key or path of the stored data
+   * @param {MemoryVectorLogOperation[]} operations - The changes, in order
+   * @returns {boolean|Promise<boolean>} True when the caller should compact with a full `save` instead
+   */
+  append?(key: string, operations: MemoryVectorLogOperation[]): boolean | Promise<boolean>;
+
+  /**
+   * Acquires a lock shared with other processes, held by the store while it reads, merges and writes.
+   *
+   * @param {string} key - The key or path of the stored data
+   * @returns {Function|Promise<Function>} A function releasing the lock
+   */
+  lock?(key: string): (() => void) | Promise<() => void>;
+
+  /**
+   * Checks whether someone else wrote the data since this provider last read or wrote it.
+   *
+   * @param {string} key - The key or path of the stored data
+   * @returns {boolean|Promise<boolean>} True when the stored data changed
+   */
+  changed?(key: string): boolean | Promise<boolean>;
+
+  /**
+   * Watches the stored data for changes.
+   *
+   * @param {string} key - The key or path of the stored data
+   * @param {Function} listener - Called after each change
+   * @returns {Function} A function stopping the watcher
+   */
+  watch?(key: string, listener: () => void): () => void;
+}
+
+/**
+ * Options of the embedding cache created by `cachedVectorParser`.
+ *
+ * @interface MemoryEmbeddingCacheOptions
+ * @property {string} modelId - Identifier of the embedding model, part of every cache key
+ * @property {number} [maxEntries] - Maximum number of cached vectors, defaults to 10000
+ * @property {number} [maxMemoryMB] - Maximum approximate memory used by cached vectors, defaults to 100
+ * @property {MemoryVectorStorageProvider} [storage] - Provider used to persist the cache
+ * @property {string} [storageKey] - Key or path of the persisted cache, required with storage
+ * @property {boolean} [autoSave] - Whether new vectors are saved automatically, defaults to true
+ */
+export interface MemoryEmbeddingCacheOptions {
+  modelId: string;
+  maxEntries?: number;
+  maxMemoryMB?: number;
+  storage?: MemoryVectorStorageProvider;
+  storageKey?: string;
+  autoSave?: boolean;
 }
 
+/**
+ * Usage statistics of an embedding cache.
+ *
+ * @interface MemoryEmbeddingCacheStats
+ * @property {number} hits - Number of calls answered from the cache
+ * @property {number} misses - Number of calls forwarded to the wrapped parser
+ * @property {number} size - Number of cached vectors
+ * @property {number} memoryBytes - Approximate memory used by cached vectors
+ */
+export interface MemoryEmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  memoryBytes: number;
+}
+
+/**
+ * A vector parser backed by an embedding cache.
+ *
+ * @typedef {Function} MemoryCachedVectorParser
+ */
+export type MemoryCachedVectorParser = MemoryVectorParser & {
+  /** Returns hit/miss counters and the cache size */
+  stats(): MemoryEmbeddingCacheStats;
+  /** Drops every cached vector and resets the counters */
+  clear(): void;
+  /** Resolves once the persisted cache has been loaded */
+  ready(): Promise<void>;
+  /** Writes the cache to its storage provider immediately */
+  save(): Promise<void>;
+};
+
 /**
  * Interface defining the core functionality of a memory vector store.
  * Provides methods for adding, retrieving, searching, and managing vector data.
@@ -102,6 +935,22 @@ export interface MemoryVectorStorageProvider {
  * @interface MemoryVectorStore
  */
 export interface MemoryVectorStore<T = any> {
+  /**
+   * Resolves once the persisted data has been loaded.
+   * Already resolved with synchronous storage providers.
+   *
+   * @type {Promise<void>}
+   */
+  readonly loaded: Promise<void>;
+
+  /**
+   * Waits until the persisted data has been loaded.
+   * Await it before reading with `get`, `getAll` or `count` when using an asynchronous provider.
+   *
+   * @returns {Promise<void>}
+   */
+  ready(): Promise<void>;
+
   /**
    * Adds a new document to the vector store.
    * Accepts either a string (which will be treated as document content)
@@ -109,36 +958,171 @@ export interface MemoryVectorStore<T = any> {
    * If the document already exists, typically returns the cached value.
    *
    * @param {string|MemoryDocument<T>} document - The document to add, either as a string or as a MemoryDocument object
+   * @param {MemoryVectorAddOptions} [options] - Expiration of the document
    * @returns {Promise<MemoryVectorData<T>>} The added vector data with the document and its vector representation
    */
-  add(document: string): Promise<MemoryVectorData<T>>;
-  add(document: MemoryDocument<T>): Promise<MemoryVectorData<T>>;
+  add(document: string, options?: MemoryVectorAddOptions): Promise<MemoryVectorData<T>>;
+  add(document: MemoryDocument<T>, options?: MemoryVectorAddOptions): Promise<MemoryVectorData<T>>;
+
+  /**
+   * Adds several documents to the vector store.
+   * Embeds the documents in parallel (or in batches when a batchParser is given)
+   * and triggers a single save once every document has been processed.
+   *
+   * @param {Array<string|MemoryDocument<T>>} documents - The documents to add
+   * @param {MemoryVectorAddManyOptions} [options] - Concurrency, batching and expiration options
+   * @returns {Promise<MemoryVectorAddManyResult<T>>} The added documents and the per-item failures
+   */
+  addMany(
+    documents: Array<string | MemoryDocument<T>>,
+    options?: MemoryVectorAddManyOptions
+  ): Promise<MemoryVectorAddManyResult<T>>;
+
+  /**
+   * Splits a long text into chunks and adds each one as a document.
+   * The metadata of every chunk holds a `chunk` field with the parent document id and the chunk's position.
+   * Adding a document with the same id again replaces its chunks.
+   *
+   * @param {string} text - The text of the document
+   * @param {MemoryVectorAddDocumentOptions<T>} [options] - Splitting, metadata and addMany options
+   * @returns {Promise<MemoryVectorAddDocumentResult<T>>} The parent id, the added chunks and the per-chunk failures
+   */
+  addDocument(text: string, options?: MemoryVectorAddDocumentOptions<T>): Promise<MemoryVectorAddDocumentResult<T>>;
+
+  /**
+   * Retrieves a stored document by its id.
+   *
+   * @param {string} id - The id of the document
+   * @returns {MemoryDocument<T>|undefined} The document, or undefined if no document has this id
+   */
+  get(id: string): MemoryDocument<T> | undefined;
+
+  /**
+   * Checks whether a document with the given id is stored.
+   *
+   * @param {string} id - The id of the document
+   * @returns {boolean} True if the document exists, false otherwise
+   */
+  has(id: string): boolean;
+
+  /**
+   * Updates the content and/or metadata of a stored document while keeping its id.
+   * The document is re-embedded only when its content changes.
+   *
+   * @param {string} id - The id of the document to update
+   * @param {MemoryDocumentPatch<T>} patch - The fields to replace
+   * @returns {Promise<MemoryVectorData<T>|undefined>} The updated vector data, or undefined if no document has this id
+   */
+  update(id: string, patch: MemoryDocumentPatch<T>): Promise<MemoryVectorData<T> | undefined>;
 
   /**
    * Searches for similar documents in the vector store.
-   * Returns documents that are similar to the query along with their similarity scores.
+   * Returns documents that are similar to the query along with their scores.
+   * With a distance metric (`euclidean`, `manhattan`) the score is the distance and results are sorted ascending.
    *
    * @param {string} query - The search query
-   * @param {number} [k] - Number of results to return, defaults to implementation-specific value
-   * @param {Function} [filter] - Optional filter function to apply to document results
-   * @returns {Promise<Array<MemoryDocument<T> & { score: number }>>} Array of documents with similarity scores, sorted by similarity
+   * @param {number|MemoryVectorSearchOptions<T>} [k] - Number of results to return, or the search options
+   * @param {MemoryVectorSearchFilter<T>} [filter] - Optional predicate or metadata filter to apply to document results
+   * @returns {Promise<MemoryVectorSearchResult<T>[]>} Array of documents with similarity scores, sorted by similarity
    */
   similaritySearch(
     query: string,
     k?: number,
-    filter?: (doc: MemoryDocument<T>) => boolean
-  ): Promise<Array<MemoryDocument<T> & { score: number }>>;
+    filter?: MemoryVectorSearchFilter<T>
+  ): Promise<MemoryVectorSearchResult<T>[]>;
+  similaritySearch(query: string, options: MemoryVectorSearchOptions<T>): Promise<MemoryVectorSearchResult<T>[]>;
 
   /**
-   * Removes a document from the store based on its content.
+   * Searches for documents similar to a vector, for example an embedding computed elsewhere
+   * or the average of several query embeddings.
+   *
+   * @param {number[]} vector - The query vector
+   * @param {MemoryVectorSearchOptions<T>} [options] - The search options
+   * @returns {Promise<MemoryVectorSearchResult<T>[]>} Array of documents with similarity scores, sorted by similarity
+   */
+  similaritySearchByVector(
+    vector: number[],
+    options?: MemoryVectorSearchOptions<T>
+  ): Promise<MemoryVectorSearchResult<T>[]>;
+
+  /**
+   * Searches for documents similar to a stored document, using its stored vector.
+   * The document itself is excluded from the results.
+   *
+   * @param {string} contentOrId - The id or the content of the stored document
+   * @param {MemoryVectorSearchOptions<T>} [options] - The search options
+   * @returns {Promise<MemoryVectorSearchResult<T>[]>} Array of documents with similarity scores, empty if the document is not stored
+   */
+  findSimilarTo(contentOrId: string, options?: MemoryVectorSearchOptions<T>): Promise<MemoryVectorSearchResult<T>[]>;
+
+  /**
+   * Searches with both the BM25 lexical index and the vectors, and fuses the two rankings.
+   * Finds exact terms such as product codes and names that dense vectors tend to miss.
+   *
+   * @param {string} query - The search query
+   * @param {MemoryVectorHybridSearchOptions<T>} [options] - Number of results and fusion method
+   * @returns {Promise<MemoryVectorHybridSearchResult<T>[]>} Array of documents sorted by fused score
+   */
+  hybridSearch(
+    query: string,
+    options?: MemoryVectorHybridSearchOptions<T>
+  ): Promise<MemoryVectorHybridSearchResult<T>[]>;
+
+  /**
+   * Searches for documents that are both similar to the query and different from each other.
+   * Fetches `fetchK` candidates by cosine similarity, then picks `k` of them with Maximal Marginal Relevance.
+   * The score of each result is its cosine similarity to the query.
+   *
+   * @param {string} query - The search query
+   * @param {MemoryVectorMMRSearchOptions<T>} [options] - Number of results, candidates and relevance/diversity trade-off
+   * @returns {Promise<MemoryVectorSearchResult<T>[]>} The selected documents, in selection order
+   */
+  maxMarginalRelevanceSearch(
+    query: string,
+    options?: MemoryVectorMMRSearchOptions<T>
+  ): Promise<MemoryVectorSearchResult<T>[]>;
+
+  /**
+   * Searches for chunks similar to the query and groups them by the document they were split from,
+   * keeping the best score of each document. Returns the matched chunks with `window` neighbours on each side,
+   * or the whole document, joined into coherent passages.
+   *
+   * @param {string} query - The search query
+   * @param {MemoryVectorParentSearchOptions<T>} [options] - Number of documents, chunks fetched and context to include
+   * @returns {Promise<MemoryVectorParentSearchResult<T>[]>} The documents, best first
+   */
+  parentDocumentSearch(
+    query: string,
+    options?: MemoryVectorParentSearchOptions<T>
+  ): Promise<MemoryVectorParentSearchResult<T>[]>;
+
+  /**
+   * Removes every document from the store whose content matches.
    *
    * @param {string} content - The content of the document to remove
    * @returns {Promise<void>}
    */
   remove(content: string): Promise<void>;
 
+  /**
+   * Removes a document from the store based on its id.
+   *
+   * @param {string} id - The id of the document to remove
+   * @returns {Promise<void>}
+   */
+  removeById(id: string): Promise<void>;
+
+  /**
+   * Removes every chunk of a document added with `addDocument`.
+   *
+   * @param {string} parentId - The id of the document
+   * @returns {Promise<void>}
+   */
+  removeDocument(parentId: string): Promise<void>;
+
   /**
    * Clears all data from the vector store.
+   * With collections, only the documents of this store's collection are removed.
    *
    * @returns {void}
    */
@@ -159,10 +1143,105 @@ export interface MemoryVectorStore<T = any> {
   count(): number;
 
   /**
-   * Saves the current state of the vector store to the configured storage.
-   * The behavior depends on the implementation and storage provider.
+   * Registers a listener for a store event.
+   *
+   * @param {keyof MemoryVectorStoreEvents<T>} event - The event to listen to
+   * @param {Function} listener - Receives the event payload
+   * @returns {Function} A function removing the listener
+   */
+  on<K extends keyof MemoryVectorStoreEvents<T>>(
+    event: K,
+    listener: (payload: MemoryVectorStoreEvents<T>[K]) => void
+  ): () => void;
+
+  /**
+   * Removes a listener registered with `on`.
+   *
+   * @param {keyof MemoryVectorStoreEvents<T>} event - The event the listener was registered for
+   * @param {Function} listener - The listener to remove
+   */
+  off<K extends keyof MemoryVectorStoreEvents<T>>(
+    event: K,
+    listener: (payload: MemoryVectorStoreEvents<T>[K]) => void
+  ): void;
+
+  /**
+   * Returns a store scoped to a named collection.
+   * Collections share the persistence file, the parser and the options of this store,
+   * but every method only sees the documents of its own collection.
+   *
+   * @param {string} name - The collection name, non-empty
+   * @returns {MemoryVectorStore<T>} The store of the collection
+   */
+  collection(name: string): MemoryVectorStore<T>;
+
+  /**
+   * Lists the named collections holding at least one document.
    *
+   * @returns {string[]} The collection names, sorted
+   */
+  listCollections(): string[];
+
+  /**
+   * Removes every document of a named collection.
+   *
+   * @param {string} name - The collection to drop
    * @returns {Promise<void>}
    */
+  dropCollection(name: string): Promise<void>;
+
+  /**
+   * Removes expired documents now instead of on the next read or save.
+   *
+   * @returns {number} The number of removed documents
+   */
+  purgeExpired(): number;
+
+  /**
+   * Embeds every stored document again with the store's parser, or the given batchParser,
+   * and records the configured `modelId`. Use it after changing the embedding model.
+   * Nothing is changed when any document fails to embed.
+   *
+   * @param {MemoryVectorReembedOptions} [options] - Concurrency, batching and progress callback
+   * @returns {Promise<number>} The number of documents embedded again
+   */
+  reembedAll(options?: MemoryVectorReembedOptions): Promise<number>;
+
+  /**
+   * Reloads the stored data, picking up changes saved by other processes.
+   * Changes not saved yet are kept when the storage provider supports appending or detecting changes.
+   *
+   * @returns {Promise<void>}
+   */
+  reload(): Promise<void>;
+
+  /**
+   * Saves the current state of the vector store to the configured storage.
+   * Changes made in a row are written together after a short delay.
+   *
+   * @returns {Promise<void>} Resolves once the changes are written, rejects when the save failed
+   */
   save(): Promise<void>;
+
+  /**
+   * Writes the pending changes right away instead of waiting for the save delay.
+   *
+   * @returns {Promise<void>} Resolves once the changes are written, rejects when the save failed
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Flushes the pending changes and releases the store's timers, watcher and cached data.
+   * Closes every collection sharing the storage path; changing or saving them afterwards throws a StoreClosedError.
+   *
+   * @returns {Promise<void>}
+   */
+  close(): Promise<void>;
+
+  /**
+   * Alias of `close`.
+   *
+   * @returns {Promise<void>}
+   */
+  dispose(): Promise<void>;
 }
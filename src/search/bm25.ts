@@ -0,0 +1,140 @@
+import { MemoryTokenizer, MemoryVectorLexicalSnapshot } from '../interface';
+
+export interface Bm25Options {
+  k1: number;
+  b: number;
+}
+
+/**
+ * Lowercases the text and splits it on anything that is not a letter or a digit.
+ */
+export const defaultTokenizer: MemoryTokenizer = (text) =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+/**
+ * Inverted index scoring documents with Okapi BM25.
+ * @class Bm25Index
+ */
+export class Bm25Index {
+  private postings = new Map<string, Map<string, number>>();
+  private documents = new Map<string, Map<string, number>>();
+  private lengths = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(
+    private tokenizer: MemoryTokenizer,
+    readonly options: Bm25Options
+  ) {}
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(id: string, content: string): void {
+    const frequencies = new Map<string, number>();
+    for (const token of this.tokenizer(content)) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+    this.set(id, frequencies);
+  }
+
+  remove(id: string): void {
+    const frequencies = this.documents.get(id);
+    if (!frequencies) return;
+    for (const term of frequencies.keys()) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) this.postings.delete(term);
+    }
+    this.totalLength -= this.lengths.get(id)!;
+    this.documents.delete(id);
+    this.lengths.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    this.lengths.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Scores the documents containing at least one query term, best first.
+   *
+   * @param query - The query text, tokenized like the documents
+   * @param k - Maximum number of results, all matches if omitted
+   * @param accept - Optional filter on document ids
+   */
+  search(query: string, k?: number, accept?: (id: string) => boolean): Array<{ id: string; score: number }> {
+    const { k1, b } = this.options;
+    const count = this.documents.size;
+    const averageLength = count > 0 ? this.totalLength / count : 0;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(this.tokenizer(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        if (accept && !accept(id)) continue;
+        const length = this.lengths.get(id)!;
+        const score = (idf * frequency * (k1 + 1)) / (frequency + k1 * (1 - b + (b * length) / averageLength));
+        scores.set(id, (scores.get(id) ?? 0) + score);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  toJSON(): MemoryVectorLexicalSnapshot {
+    return {
+      k1: this.options.k1,
+      b: this.options.b,
+      tokenizer: this.tokenizer === defaultTokenizer ? 'default' : 'custom',
+      documents: Array.from(this.documents, ([id, frequencies]) => [id, Array.from(frequencies)]),
+    };
+  }
+
+  /**
+   * Restores an index saved by `toJSON`, without tokenizing the documents again.
+   * Returns undefined when it was built with other parameters or either side uses a custom tokenizer,
+   * whose terms cannot be told apart from another one's, so it has to be rebuilt from the documents.
+   */
+  static fromJSON(
+    snapshot: MemoryVectorLexicalSnapshot,
+    tokenizer: MemoryTokenizer,
+    options: Bm25Options
+  ): Bm25Index | undefined {
+    if (snapshot.k1 !== options.k1 || snapshot.b !== options.b) return undefined;
+    if (snapshot.tokenizer !== 'default' || tokenizer !== defaultTokenizer) return undefined;
+
+    const index = new Bm25Index(tokenizer, options);
+    for (const [id, frequencies] of snapshot.documents) {
+      index.set(id, new Map(frequencies));
+    }
+    return index;
+  }
+
+  private set(id: string, frequencies: Map<string, number>): void {
+    this.remove(id);
+    let length = 0;
+    this.documents.set(id, frequencies);
+    for (const [term, frequency] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+      length += frequency;
+    }
+    this.lengths.set(id, length);
+    this.totalLength += length;
+  }
+}
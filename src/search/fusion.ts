@@ -0,0 +1,27 @@
+/**
+ * Min-max normalizes scores to [0, 1], 1 being the best score whatever the direction.
+ * When every score is equal, they all normalize to 1.
+ */
+export function normalizeScores(scores: number[], higherIsBetter: boolean = true): number[] {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  if (max === min) return scores.map(() => 1);
+  return scores.map((score) => (higherIsBetter ? score - min : max - score) / (max - min));
+}
+
+/**
+ * Combines several rankings with Reciprocal Rank Fusion: each list adds `1 / (k + rank)` to its items.
+ *
+ * @param rankings - Item ids of each ranking, best first
+ * @param k - Damping constant, 60 in the original paper
+ * @returns The fused score of every ranked item
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = 60): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + rank + 1));
+    });
+  }
+  return scores;
+}
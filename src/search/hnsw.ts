@@ -0,0 +1,289 @@
+import { MemoryVectorIndexSnapshot } from '../interface';
+import { BinaryHeap } from '../shared/heap';
+import { seededRandom } from '../shared/util';
+
+export interface HnswOptions {
+  M: number;
+  efConstruction: number;
+  efSearch: number;
+}
+
+interface HnswNode<V> {
+  id: string;
+  vector: V;
+  level: number;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  index: number;
+  distance: number;
+}
+
+const byDistance = (a: Candidate, b: Candidate) => a.distance - b.distance;
+
+/**
+ * Hierarchical Navigable Small World graph for approximate nearest neighbor search.
+ * Removed documents are only marked as deleted and keep routing searches
+ * until they outnumber live nodes, at which point the graph is rebuilt.
+ * Vectors are of any type the distance function can compare, such as quantized vectors.
+ * @class HnswIndex
+ */
+export class HnswIndex<V = number[]> {
+  private nodes: HnswNode<V>[] = [];
+  private positions = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private random = seededRandom(0x5eed);
+  private levelMultiplier: number;
+
+  /**
+   * @param distance - Distance between two vectors, lower is closer
+   * @param options - Graph construction and search parameters
+   * @param detach - Copies the vector of a removed node, whose storage the caller may reuse while it still routes searches
+   */
+  constructor(
+    private distance: (a: V, b: V) => number,
+    readonly options: HnswOptions,
+    private detach: (vector: V) => V = (vector) => vector
+  ) {
+    this.levelMultiplier = 1 / Math.log(Math.max(options.M, 2));
+  }
+
+  get size(): number {
+    return this.positions.size;
+  }
+
+  has(id: string): boolean {
+    return this.positions.has(id);
+  }
+
+  add(id: string, vector: V): void {
+    if (this.positions.has(id)) this.remove(id);
+
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    const index = this.nodes.length;
+    const node: HnswNode<V> = {
+      id,
+      vector,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    };
+    this.nodes.push(node);
+    this.positions.set(id, index);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return;
+    }
+
+    let current = this.entryPoint;
+    for (let l = this.maxLevel; l > level; l--) {
+      current = this.greedySearch(vector, current, l);
+    }
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(vector, current, this.options.efConstruction, l);
+      const selected = candidates.slice(0, this.options.M);
+      node.neighbors[l] = selected.map((candidate) => candidate.index);
+      for (const candidate of selected) {
+        this.connect(candidate.index, index, l);
+      }
+      current = candidates[0].index;
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = index;
+    }
+  }
+
+  remove(id: string): void {
+    const index = this.positions.get(id);
+    if (index === undefined) return;
+    const node = this.nodes[index];
+    node.deleted = true;
+    node.vector = this.detach(node.vector);
+    this.positions.delete(id);
+
+    if (this.positions.size === 0) this.clear();
+    else if (this.nodes.length > this.positions.size * 2) this.rebuild();
+  }
+
+  clear(): void {
+    this.nodes = [];
+    this.positions.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+  }
+
+  /**
+   * Finds the k nearest live nodes.
+   *
+   * @param query - The query vector
+   * @param k - Number of results
+   * @param ef - Size of the dynamic candidate list, raised to k if lower
+   * @param accept - Optional filter, nodes it rejects still route the search but are not returned
+   */
+  search(
+    query: V,
+    k: number,
+    ef: number = this.options.efSearch,
+    accept?: (id: string) => boolean
+  ): Array<{ id: string; distance: number }> {
+    if (this.entryPoint === -1 || k <= 0) return [];
+
+    let current = this.entryPoint;
+    for (let l = this.maxLevel; l > 0; l--) {
+      current = this.greedySearch(query, current, l);
+    }
+
+    const results: Array<{ id: string; distance: number }> = [];
+    for (const candidate of this.searchLayer(query, current, Math.max(ef, k), 0)) {
+      const node = this.nodes[candidate.index];
+      if (node.deleted || (accept && !accept(node.id))) continue;
+      results.push({ id: node.id, distance: candidate.distance });
+      if (results.length === k) break;
+    }
+    return results;
+  }
+
+  /**
+   * Serializes the graph with node positions matching the order of the persisted items.
+   */
+  toJSON(ids: string[]): MemoryVectorIndexSnapshot {
+    const itemPositions = new Map<number, number>();
+    ids.forEach((id, position) => {
+      const index = this.positions.get(id);
+      if (index !== undefined) itemPositions.set(index, position);
+    });
+    const remap = (indices: number[]) =>
+      indices.flatMap((index) => (itemPositions.has(index) ? [itemPositions.get(index)!] : []));
+
+    return {
+      type: 'hnsw',
+      M: this.options.M,
+      efConstruction: this.options.efConstruction,
+      entryPoint: itemPositions.get(this.entryPoint) ?? -1,
+      levels: ids.map((id) => this.nodes[this.positions.get(id) ?? -1]?.level ?? 0),
+      neighbors: ids.map((id) => this.nodes[this.positions.get(id) ?? -1]?.neighbors.map(remap) ?? [[]]),
+    };
+  }
+
+  /**
+   * Restores a graph saved by `toJSON`.
+   * Returns undefined when the snapshot does not match the items or the options, so the caller can rebuild.
+   */
+  static fromJSON<V>(
+    snapshot: MemoryVectorIndexSnapshot,
+    items: Array<{ id: string; vector: V }>,
+    distance: (a: V, b: V) => number,
+    options: HnswOptions,
+    detach?: (vector: V) => V
+  ): HnswIndex<V> | undefined {
+    if (
+      snapshot.type !== 'hnsw' ||
+      snapshot.M !== options.M ||
+      snapshot.efConstruction !== options.efConstruction ||
+      snapshot.levels.length !== items.length ||
+      snapshot.neighbors.length !== items.length
+    ) {
+      return undefined;
+    }
+
+    const index = new HnswIndex(distance, options, detach);
+    items.forEach((item, position) => {
+      index.nodes.push({
+        id: item.id,
+        vector: item.vector,
+        level: snapshot.levels[position],
+        neighbors: snapshot.neighbors[position],
+        deleted: false,
+      });
+      index.positions.set(item.id, position);
+    });
+
+    let entryPoint = snapshot.entryPoint;
+    if (!index.nodes[entryPoint]) {
+      entryPoint = index.nodes.reduce(
+        (best, node, position) => (node.level > (index.nodes[best]?.level ?? -1) ? position : best),
+        -1
+      );
+    }
+    index.entryPoint = entryPoint;
+    index.maxLevel = index.nodes[entryPoint]?.level ?? -1;
+    return index;
+  }
+
+  private rebuild(): void {
+    const live = this.nodes.filter((node) => !node.deleted);
+    this.clear();
+    for (const node of live) {
+      this.add(node.id, node.vector);
+    }
+  }
+
+  private connect(from: number, to: number, level: number): void {
+    const node = this.nodes[from];
+    const neighbors = node.neighbors[level];
+    neighbors.push(to);
+
+    const maxConnections = level === 0 ? this.options.M * 2 : this.options.M;
+    if (neighbors.length > maxConnections) {
+      node.neighbors[level] = neighbors
+        .map((index) => ({ index, distance: this.distance(node.vector, this.nodes[index].vector) }))
+        .sort(byDistance)
+        .slice(0, maxConnections)
+        .map((candidate) => candidate.index);
+    }
+  }
+
+  private greedySearch(query: V, start: number, level: number): number {
+    let current = start;
+    let best = this.distance(query, this.nodes[start].vector);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const neighbor of this.nodes[current].neighbors[level] ?? []) {
+        const distance = this.distance(query, this.nodes[neighbor].vector);
+        if (distance < best) {
+          best = distance;
+          current = neighbor;
+          changed = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  private searchLayer(query: V, entry: number, ef: number, level: number): Candidate[] {
+    const visited = new Set<number>([entry]);
+    const first = { index: entry, distance: this.distance(query, this.nodes[entry].vector) };
+    const candidates = new BinaryHeap<Candidate>(byDistance);
+    const results = new BinaryHeap<Candidate>((a, b) => b.distance - a.distance);
+    candidates.push(first);
+    results.push(first);
+
+    while (candidates.size > 0) {
+      const candidate = candidates.pop()!;
+      if (results.size >= ef && candidate.distance > results.peek()!.distance) break;
+
+      for (const neighbor of this.nodes[candidate.index].neighbors[level] ?? []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const distance = this.distance(query, this.nodes[neighbor].vector);
+        if (results.size < ef || distance < results.peek()!.distance) {
+          const item = { index: neighbor, distance };
+          candidates.push(item);
+          results.push(item);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort(byDistance);
+  }
+}
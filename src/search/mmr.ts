@@ -0,0 +1,45 @@
+import { cosineSimilarity } from '../shared/metric';
+
+/**
+ * Selects a relevant yet diverse subset of candidates with Maximal Marginal Relevance.
+ * Each step picks the candidate maximizing
+ * `lambda * similarity(query) - (1 - lambda) * max(similarity(selected))`.
+ *
+ * @param queryVector - The query vector
+ * @param candidates - Candidate vectors, usually the best matches of a similarity search
+ * @param k - Number of candidates to select
+ * @param lambda - 1 favors relevance only, 0 favors diversity only
+ * @returns Positions of the selected candidates, in selection order
+ */
+export function maximalMarginalRelevance(
+  queryVector: number[],
+  candidates: number[][],
+  k: number,
+  lambda: number
+): number[] {
+  const relevance = candidates.map((vector) => cosineSimilarity(queryVector, vector));
+  const redundancy = candidates.map(() => -Infinity);
+  const remaining = new Set(candidates.map((_, index) => index));
+  const selected: number[] = [];
+
+  while (selected.length < k && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const index of remaining) {
+      const penalty = selected.length === 0 ? 0 : redundancy[index];
+      const score = lambda * relevance[index] - (1 - lambda) * penalty;
+      if (score > bestScore) {
+        bestScore = score;
+        best = index;
+      }
+    }
+
+    selected.push(best);
+    remaining.delete(best);
+    for (const index of remaining) {
+      redundancy[index] = Math.max(redundancy[index], cosineSimilarity(candidates[index], candidates[best]));
+    }
+  }
+
+  return selected;
+}
@@ -0,0 +1,155 @@
+import { cosineSimilarity, dotProduct, euclideanDistance, manhattanDistance, ResolvedMetric } from './metric';
+
+/**
+ * Full-precision vector kept in a slot of an arena.
+ */
+export interface ArenaVector {
+  arena: VectorArena;
+  slot: number;
+  length: number;
+}
+
+const INITIAL_CAPACITY = 64;
+
+/**
+ * Vectors of one dimension packed back to back in a single Float32Array, with their norms computed once
+ * when they are stored. Slots of released vectors are reused by the next ones.
+ */
+export class VectorArena {
+  data: Float32Array;
+  norms: Float64Array;
+  /** Vector holding each slot, so a vector released twice cannot free the slot of the next one */
+  private owners: (ArenaVector | undefined)[] = [];
+  private free: number[] = [];
+
+  constructor(readonly dimension: number) {
+    this.data = new Float32Array(INITIAL_CAPACITY * dimension);
+    this.norms = new Float64Array(INITIAL_CAPACITY);
+  }
+
+  get size(): number {
+    return this.owners.length - this.free.length;
+  }
+
+  allocate(values: ArrayLike<number>): ArenaVector {
+    let slot = this.free.pop();
+    if (slot === undefined) {
+      slot = this.owners.length;
+      if (slot === this.norms.length) this.grow();
+    }
+
+    const offset = slot * this.dimension;
+    let norm = 0;
+    for (let i = 0; i < this.dimension; i++) {
+      this.data[offset + i] = values[i];
+      // Norm of the stored values, as rounded to Float32
+      norm += this.data[offset + i] * this.data[offset + i];
+    }
+    this.norms[slot] = Math.sqrt(norm);
+
+    const vector: ArenaVector = { arena: this, slot, length: this.dimension };
+    this.owners[slot] = vector;
+    return vector;
+  }
+
+  release(vector: ArenaVector): void {
+    if (this.owners[vector.slot] !== vector) return;
+    this.owners[vector.slot] = undefined;
+    this.free.push(vector.slot);
+  }
+
+  /**
+   * Values of a vector, as a view on the arena: valid until the arena grows.
+   */
+  values(vector: ArenaVector): Float32Array {
+    const offset = vector.slot * this.dimension;
+    return this.data.subarray(offset, offset + this.dimension);
+  }
+
+  private grow(): void {
+    const data = new Float32Array(this.data.length * 2);
+    data.set(this.data);
+    this.data = data;
+    const norms = new Float64Array(this.norms.length * 2);
+    norms.set(this.norms);
+    this.norms = norms;
+  }
+}
+
+/**
+ * Dot product of the query with the vector at an offset of the arena data.
+ * Four running sums let the engine overlap the multiplications.
+ */
+const dotAt = (query: Float64Array, data: Float32Array, offset: number): number => {
+  const length = query.length;
+  let sum0 = 0;
+  let sum1 = 0;
+  let sum2 = 0;
+  let sum3 = 0;
+  let i = 0;
+  for (; i + 3 < length; i += 4) {
+    sum0 += query[i] * data[offset + i];
+    sum1 += query[i + 1] * data[offset + i + 1];
+    sum2 += query[i + 2] * data[offset + i + 2];
+    sum3 += query[i + 3] * data[offset + i + 3];
+  }
+  for (; i < length; i++) sum0 += query[i] * data[offset + i];
+  return sum0 + sum1 + sum2 + sum3;
+};
+
+const squaredDistanceAt = (query: Float64Array, data: Float32Array, offset: number): number => {
+  const length = query.length;
+  let sum0 = 0;
+  let sum1 = 0;
+  let i = 0;
+  for (; i + 1 < length; i += 2) {
+    const diff0 = query[i] - data[offset + i];
+    const diff1 = query[i + 1] - data[offset + i + 1];
+    sum0 += diff0 * diff0;
+    sum1 += diff1 * diff1;
+  }
+  if (i < length) sum0 += (query[i] - data[offset + i]) ** 2;
+  return sum0 + sum1;
+};
+
+const manhattanDistanceAt = (query: Float64Array, data: Float32Array, offset: number): number => {
+  const length = query.length;
+  let sum0 = 0;
+  let sum1 = 0;
+  let i = 0;
+  for (; i + 1 < length; i += 2) {
+    sum0 += Math.abs(query[i] - data[offset + i]);
+    sum1 += Math.abs(query[i + 1] - data[offset + i + 1]);
+  }
+  if (i < length) sum0 += Math.abs(query[i] - data[offset + i]);
+  return sum0 + sum1;
+};
+
+/**
+ * Scores a query against the vectors of an arena by slot, reading them in place and using their stored
+ * norms for cosine similarity. Undefined for custom metrics, which need the vectors as arrays.
+ */
+export const arenaScorer = (
+  arena: VectorArena,
+  metric: ResolvedMetric,
+  query: number[]
+): ((slot: number) => number) | undefined => {
+  const { dimension } = arena;
+  const values = Float64Array.from(query.slice(0, dimension));
+
+  if (metric.score === cosineSimilarity) {
+    let norm = 0;
+    for (const value of values) norm += value * value;
+    const queryNorm = Math.sqrt(norm);
+    return (slot) => {
+      const norms = queryNorm * arena.norms[slot];
+      return norms === 0 ? 0 : dotAt(values, arena.data, slot * dimension) / norms;
+    };
+  }
+  if (metric.score === dotProduct) return (slot) => dotAt(values, arena.data, slot * dimension);
+  if (metric.score === euclideanDistance) {
+    return (slot) => Math.sqrt(squaredDistanceAt(values, arena.data, slot * dimension));
+  }
+  if (metric.score === manhattanDistance) return (slot) => manhattanDistanceAt(values, arena.data, slot * dimension);
+  return undefined;
+};
@@ -0,0 +1,117 @@
+import { MemoryVectorStoreData } from '../interface';
+
+/**
+ * Base class of the errors thrown by the vector store.
+ */
+export class MemoryVectorStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Thrown when the configured metric differs from the one the stored data was saved with.
+ * Scores computed with another metric would be meaningless, so the store refuses to load.
+ */
+export class MetricMismatchError extends MemoryVectorStoreError {
+  constructor(
+    public readonly expected: string,
+    public readonly actual: string
+  ) {
+    super(`Vector store was saved with the "${actual}" metric but is configured with "${expected}"`);
+  }
+}
+
+/**
+ * Thrown when persisted data cannot be read back, after a crash mid-write or a checksum mismatch.
+ * The unreadable file is moved to `corruptedPath` so a later save cannot overwrite it,
+ * and `backup` holds the data of the last good backup, which the store loads instead.
+ */
+export class StoreCorruptedError extends MemoryVectorStoreError {
+  constructor(
+    public readonly path: string,
+    public readonly reason: unknown,
+    public readonly corruptedPath?: string,
+    public readonly backup?: MemoryVectorStoreData
+  ) {
+    super(
+      `Vector store data at "${path}" is corrupted` +
+        (backup ? ', recovered from the backup' : '') +
+        (reason instanceof Error ? `: ${reason.message}` : '')
+    );
+  }
+}
+
+/**
+ * Thrown when the lock file of a store held by another process could not be acquired in time.
+ */
+export class StoreLockedError extends MemoryVectorStoreError {
+  constructor(public readonly path: string) {
+    super(`Timed out waiting for the lock on "${path}"`);
+  }
+}
+
+/**
+ * Thrown when a document does not fit within `maxDocuments` or `maxFileSizeMB` and the eviction policy is 'none'.
+ */
+export class StoreFullError extends MemoryVectorStoreError {
+  constructor(public readonly limit: string) {
+    super(`Vector store is full: ${limit}`);
+  }
+}
+
+/**
+ * Thrown when changing or saving a store after `close()`.
+ */
+export class StoreClosedError extends MemoryVectorStoreError {
+  constructor(public readonly path: string) {
+    super(`Vector store at "${path}" is closed`);
+  }
+}
+
+/**
+ * Thrown when a vector does not have the dimension of the vectors already stored.
+ * Scores between vectors of different lengths would be meaningless.
+ */
+export class DimensionMismatchError extends MemoryVectorStoreError {
+  constructor(
+    public readonly expected: number,
+    public readonly actual: number
+  ) {
+    super(`Vector has ${actual} dimensions but the store holds vectors of ${expected}`);
+  }
+}
+
+/**
+ * Thrown when a vector parser returns something other than an array of finite numbers.
+ */
+export class InvalidVectorError extends MemoryVectorStoreError {}
+
+/**
+ * Reported when the stored vectors were embedded with another model than the configured `modelId`.
+ * The data is still loaded; call `reembedAll()` to embed it again with the current model.
+ */
+export class ModelMismatchError extends MemoryVectorStoreError {
+  constructor(
+    public readonly expected: string,
+    public readonly actual: string
+  ) {
+    super(`Vector store was embedded with the "${actual}" model but is configured with "${expected}"`);
+  }
+}
+
+/**
+ * Thrown when a metadata filter uses an unknown operator or gives an operator the wrong kind of operand.
+ */
+export class InvalidFilterError extends MemoryVectorStoreError {}
+
+/**
+ * Thrown when a document added without an id would replace a document whose content was updated since.
+ * Both share the id derived from the original content; pass an explicit id to keep them apart.
+ */
+export class DocumentIdConflictError extends MemoryVectorStoreError {
+  constructor(public readonly id: string) {
+    super(`Document "${id}" now holds other content; pass an explicit id to add this text again`);
+  }
+}
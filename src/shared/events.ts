@@ -0,0 +1,42 @@
+/**
+ * Minimal typed event emitter, working the same in Node and browsers.
+ */
+export class EventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<(payload: any) => void>>();
+
+  /**
+   * @returns A function removing the listener
+   */
+  on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Calls the listeners of the event. A throwing listener is logged and does not stop the others
+   * or the operation that emitted the event.
+   *
+   * @returns Whether the event had listeners
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): boolean {
+    const listeners = this.listeners.get(event);
+    if (!listeners || listeners.size === 0) return false;
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in "${String(event)}" listener:`, error);
+      }
+    }
+    return true;
+  }
+}
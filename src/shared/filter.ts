@@ -0,0 +1,164 @@
+import { MemoryMetadataFilter } from '../interface';
+import { InvalidFilterError } from './errors';
+
+const isOperatorObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  Object.keys(value).length > 0 &&
+  Object.keys(value).every((key) => key.startsWith('$'));
+
+const getPath = (target: unknown, path: string[]): unknown => {
+  let current: any = target;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = current[key];
+  }
+  return current;
+};
+
+const toComparable = (value: unknown): unknown => (value instanceof Date ? value.getTime() : value);
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  a = toComparable(a);
+  b = toComparable(b);
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    // `null` in a filter also matches a missing field
+    return (a === null && b === undefined) || (a === undefined && b === null);
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every((key) => isEqual((a as any)[key], (b as any)[key]));
+};
+
+const compare = (value: unknown, operand: unknown): number | undefined => {
+  const a = toComparable(value);
+  const b = toComparable(operand);
+  if ((typeof a === 'number' && typeof b === 'number') || (typeof a === 'string' && typeof b === 'string')) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return undefined;
+};
+
+type ValueTest = (value: unknown) => boolean;
+
+/**
+ * Arrays match when any of their elements matches, like in MongoDB.
+ */
+const matchesValue = (value: unknown, test: ValueTest): boolean =>
+  test(value) || (Array.isArray(value) && value.some(test));
+
+const equalTo =
+  (operand: unknown): ValueTest =>
+  (item) =>
+    isEqual(item, operand);
+
+const compileOperator = (operator: string, operand: any): ValueTest => {
+  switch (operator) {
+    case '$eq': {
+      const test = equalTo(operand);
+      return (value) => matchesValue(value, test);
+    }
+    case '$ne': {
+      const test = equalTo(operand);
+      return (value) => !matchesValue(value, test);
+    }
+    case '$in': {
+      if (!Array.isArray(operand)) throw new InvalidFilterError('$in requires an array');
+      const tests = operand.map(equalTo);
+      return (value) => tests.some((test) => matchesValue(value, test));
+    }
+    case '$nin': {
+      if (!Array.isArray(operand)) throw new InvalidFilterError('$nin requires an array');
+      const tests = operand.map(equalTo);
+      return (value) => !tests.some((test) => matchesValue(value, test));
+    }
+    case '$gt': {
+      const test: ValueTest = (item) => (compare(item, operand) ?? 0) > 0;
+      return (value) => matchesValue(value, test);
+    }
+    case '$gte': {
+      const test: ValueTest = (item) => (compare(item, operand) ?? -1) >= 0;
+      return (value) => matchesValue(value, test);
+    }
+    case '$lt': {
+      const test: ValueTest = (item) => (compare(item, operand) ?? 0) < 0;
+      return (value) => matchesValue(value, test);
+    }
+    case '$lte': {
+      const test: ValueTest = (item) => (compare(item, operand) ?? 1) <= 0;
+      return (value) => matchesValue(value, test);
+    }
+    case '$exists':
+      return (value) => (value !== undefined) === Boolean(operand);
+    default:
+      throw new InvalidFilterError(`Unknown filter operator: ${operator}`);
+  }
+};
+
+const every =
+  <V>(tests: ((value: V) => boolean)[]) =>
+  (value: V): boolean => {
+    for (const test of tests) {
+      if (!test(value)) return false;
+    }
+    return true;
+  };
+
+/**
+ * Compiles a declarative filter into a test of metadata.
+ * Paths and operators are parsed once, so testing each document allocates nothing.
+ *
+ * @param {MemoryMetadataFilter} filter - The filter to apply
+ * @returns A function returning true if the metadata matches every condition of the filter
+ */
+export function compileFilter<T = any>(filter: MemoryMetadataFilter<T>): (metadata: T | undefined) => boolean {
+  const tests: ((metadata: T | undefined) => boolean)[] = [];
+  for (const [key, condition] of Object.entries(filter)) {
+    if (condition === undefined) continue;
+    if ((key === '$and' || key === '$or') && !Array.isArray(condition)) {
+      throw new InvalidFilterError(`${key} requires an array`);
+    }
+    if (key === '$not' && (typeof condition !== 'object' || condition === null || Array.isArray(condition))) {
+      throw new InvalidFilterError('$not requires a filter object');
+    }
+    switch (key) {
+      case '$and': {
+        tests.push(every((condition as MemoryMetadataFilter<T>[]).map((sub) => compileFilter(sub))));
+        continue;
+      }
+      case '$or': {
+        const subs = (condition as MemoryMetadataFilter<T>[]).map((sub) => compileFilter(sub));
+        tests.push((metadata) => subs.some((sub) => sub(metadata)));
+        continue;
+      }
+      case '$not': {
+        const sub = compileFilter(condition as MemoryMetadataFilter<T>);
+        tests.push((metadata) => !sub(metadata));
+        continue;
+      }
+    }
+    const path = key.split('.');
+    const test = every(
+      isOperatorObject(condition)
+        ? Object.entries(condition).map(([operator, operand]) => compileOperator(operator, operand))
+        : [compileOperator('$eq', condition)]
+    );
+    tests.push((metadata) => test(getPath(metadata, path)));
+  }
+  return every(tests);
+}
+
+/**
+ * Checks whether metadata matches a declarative filter.
+ *
+ * @param {unknown} metadata - The metadata of a document
+ * @param {MemoryMetadataFilter} filter - The filter to apply
+ * @returns {boolean} True if the metadata matches every condition of the filter
+ */
+export function matchesFilter<T = any>(metadata: T | undefined, filter: MemoryMetadataFilter<T>): boolean {
+  return compileFilter(filter)(metadata);
+}
@@ -0,0 +1,83 @@
+import { MemoryVectorMetric, MemoryVectorMetricName } from '../interface';
+import { MemoryVectorStoreError } from './errors';
+
+export interface ResolvedMetric {
+  name: string;
+  score: (a: number[], b: number[]) => number;
+  higherIsBetter: boolean;
+}
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+export const dotProduct = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+};
+
+export const euclideanDistance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum);
+};
+
+export const manhattanDistance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum;
+};
+
+const builtinMetrics: Record<MemoryVectorMetricName, ResolvedMetric> = {
+  cosine: { name: 'cosine', score: cosineSimilarity, higherIsBetter: true },
+  dot: { name: 'dot', score: dotProduct, higherIsBetter: true },
+  euclidean: { name: 'euclidean', score: euclideanDistance, higherIsBetter: false },
+  manhattan: { name: 'manhattan', score: manhattanDistance, higherIsBetter: false },
+};
+
+export const isBuiltinMetric = (name: string): name is MemoryVectorMetricName => name in builtinMetrics;
+
+export function resolveMetric(metric: MemoryVectorMetric): ResolvedMetric {
+  if (typeof metric === 'function') {
+    return { name: 'custom', score: metric, higherIsBetter: true };
+  }
+  if (typeof metric === 'object') {
+    return { name: metric.name, score: metric.score, higherIsBetter: metric.higherIsBetter ?? true };
+  }
+  if (!isBuiltinMetric(metric)) throw new MemoryVectorStoreError(`Unknown metric: ${metric}`);
+  return builtinMetrics[metric];
+}
+
+/**
+ * Sort comparator placing the best score first, whatever the direction of the metric.
+ */
+export const compareScores =
+  (metric: ResolvedMetric) =>
+  (a: { score: number }, b: { score: number }): number =>
+    metric.higherIsBetter ? b.score - a.score : a.score - b.score;
+
+/**
+ * Whether a score is at least as good as the threshold, a maximum distance for distance metrics.
+ */
+export const meetsThreshold = (metric: ResolvedMetric, score: number, threshold: number): boolean =>
+  metric.higherIsBetter ? score >= threshold : score <= threshold;
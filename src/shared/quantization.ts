@@ -0,0 +1,293 @@
+import { MemoryVectorQuantization, MemoryVectorQuantizationType } from '../interface';
+import { cosineSimilarity, dotProduct, euclideanDistance, manhattanDistance, ResolvedMetric } from './metric';
+import { MemoryVectorStoreError } from './errors';
+import { ArenaVector } from './arena';
+
+/**
+ * Vector kept as codes times a per-vector scale: one signed byte per value for int8,
+ * one bit per value for binary, set when the value is positive.
+ */
+export interface QuantizedVector {
+  type: MemoryVectorQuantizationType;
+  codes: Int8Array | Uint8Array;
+  scale: number;
+  /** Number of values, binary codes hold eight per byte */
+  length: number;
+  /** Original values, kept for re-ranking */
+  full?: Float32Array;
+}
+
+/**
+ * Vector of a stored document: full precision in an arena, or quantized when the store is configured so.
+ */
+export type StoredVector = ArenaVector | QuantizedVector;
+
+/**
+ * Vector accepted by the helpers below: a stored one or a plain array such as a query.
+ */
+export type AnyVector = number[] | StoredVector;
+
+type FloatVector = number[] | ArenaVector;
+
+const isFloat = (vector: AnyVector): vector is FloatVector => Array.isArray(vector) || 'arena' in vector;
+
+export interface ResolvedQuantization {
+  type: MemoryVectorQuantizationType;
+  rerank: number;
+}
+
+export const resolveQuantization = (
+  quantization: MemoryVectorQuantization = 'none'
+): ResolvedQuantization | undefined => {
+  if (quantization === 'none') return undefined;
+  const { type, rerank = 0 } = typeof quantization === 'string' ? { type: quantization } : quantization;
+  if (type !== 'int8' && type !== 'binary') throw new MemoryVectorStoreError(`Unknown quantization: ${type}`);
+  if (!(rerank >= 0)) throw new MemoryVectorStoreError(`rerank must not be negative, got ${rerank}`);
+  return { type, rerank };
+};
+
+export const quantize = (vector: number[], { type, rerank }: ResolvedQuantization): QuantizedVector => {
+  const full = rerank > 0 ? Float32Array.from(vector) : undefined;
+  if (type === 'int8') {
+    let max = 0;
+    for (const value of vector) max = Math.max(max, Math.abs(value));
+    const scale = max / 127;
+    const codes = new Int8Array(vector.length);
+    if (scale > 0) {
+      for (let i = 0; i < vector.length; i++) codes[i] = Math.round(vector[i] / scale);
+    }
+    return { type, codes, scale, length: vector.length, full };
+  }
+
+  let sum = 0;
+  const codes = new Uint8Array(Math.ceil(vector.length / 8));
+  for (let i = 0; i < vector.length; i++) {
+    sum += Math.abs(vector[i]);
+    if (vector[i] > 0) codes[i >> 3] |= 1 << (i & 7);
+  }
+  return { type, codes, scale: vector.length > 0 ? sum / vector.length : 0, length: vector.length, full };
+};
+
+/**
+ * Value a code stands for: the code times the scale for int8, plus or minus the scale for binary.
+ */
+const codeValue = (vector: QuantizedVector, i: number): number => {
+  if (vector.type === 'int8') return vector.codes[i] * vector.scale;
+  return vector.codes[i >> 3] & (1 << (i & 7)) ? vector.scale : -vector.scale;
+};
+
+/**
+ * Copies the values of a vector: its full-precision values when kept, else the values its codes stand for.
+ */
+export const dequantize = (vector: AnyVector): number[] => {
+  if (Array.isArray(vector)) return vector.slice();
+  if ('arena' in vector) return Array.from(vector.arena.values(vector));
+  if (vector.full) return Array.from(vector.full);
+  return Array.from({ length: vector.length }, (_, i) => codeValue(vector, i));
+};
+
+const offsetOf = (vector: FloatVector): number => (Array.isArray(vector) ? 0 : vector.slot * vector.length);
+
+const valuesOf = (vector: FloatVector): ArrayLike<number> => (Array.isArray(vector) ? vector : vector.arena.data);
+
+const normOf = (vector: FloatVector): number => {
+  if (!Array.isArray(vector)) return vector.arena.norms[vector.slot];
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  return Math.sqrt(norm);
+};
+
+/**
+ * Scores two full-precision vectors with a built-in metric, reading arena vectors in place.
+ */
+const scoreFloats = (metric: ResolvedMetric, a: FloatVector, b: FloatVector): number => {
+  const length = Math.min(a.length, b.length);
+  const valuesA = valuesOf(a);
+  const valuesB = valuesOf(b);
+  const offsetA = offsetOf(a);
+  const offsetB = offsetOf(b);
+
+  if (metric.score === cosineSimilarity || metric.score === dotProduct) {
+    let dot = 0;
+    for (let i = 0; i < length; i++) dot += valuesA[offsetA + i] * valuesB[offsetB + i];
+    if (metric.score === dotProduct) return dot;
+    const norms = normOf(a) * normOf(b);
+    return norms === 0 ? 0 : dot / norms;
+  }
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    const diff = valuesA[offsetA + i] - valuesB[offsetB + i];
+    sum += metric.score === euclideanDistance ? diff * diff : Math.abs(diff);
+  }
+  return metric.score === euclideanDistance ? Math.sqrt(sum) : sum;
+};
+
+const isBuiltinScore = (metric: ResolvedMetric): boolean =>
+  metric.score === cosineSimilarity ||
+  metric.score === dotProduct ||
+  metric.score === euclideanDistance ||
+  metric.score === manhattanDistance;
+
+/**
+ * Scores two vectors with the metric, either of them stored in an arena or quantized.
+ * Built-in metrics read the stored values in place; custom metrics receive them as arrays.
+ */
+export const scoreVectors = (metric: ResolvedMetric, a: AnyVector, b: AnyVector): number => {
+  if (Array.isArray(a) && Array.isArray(b)) return metric.score(a, b);
+  if (!isBuiltinScore(metric)) {
+    return metric.score(Array.isArray(a) ? a : dequantize(a), Array.isArray(b) ? b : dequantize(b));
+  }
+  if (isFloat(a) && isFloat(b)) return scoreFloats(metric, a, b);
+
+  if (isFloat(a)) return scoreCodes(metric, a, b as QuantizedVector);
+  if (isFloat(b)) return scoreCodes(metric, b, a);
+  if (a.type !== b.type) return scoreCodes(metric, dequantize(a), b);
+  return a.type === 'int8' ? scoreInt8(metric, a, b) : scoreBinary(metric, a, b);
+};
+
+const popcount32 = (x: number): number => {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  return Math.imul((x + (x >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+};
+
+/**
+ * Number of the first `length` bits that differ, counted four bytes at a time.
+ */
+const hammingDistance = (a: Uint8Array, b: Uint8Array, length: number): number => {
+  const bytes = length >> 3;
+  let count = 0;
+  let i = 0;
+  for (; i + 4 <= bytes; i += 4) {
+    count += popcount32(
+      (a[i] ^ b[i]) | ((a[i + 1] ^ b[i + 1]) << 8) | ((a[i + 2] ^ b[i + 2]) << 16) | ((a[i + 3] ^ b[i + 3]) << 24)
+    );
+  }
+  for (; i < bytes; i++) count += popcount32(a[i] ^ b[i]);
+  const rest = length & 7;
+  if (rest > 0) count += popcount32((a[bytes] ^ b[bytes]) & ((1 << rest) - 1));
+  return count;
+};
+
+/**
+ * Scores two int8 vectors over their codes, applying the scales once.
+ */
+const scoreInt8 = (metric: ResolvedMetric, a: QuantizedVector, b: QuantizedVector): number => {
+  const length = Math.min(a.length, b.length);
+  const codesA = a.codes;
+  const codesB = b.codes;
+  if (metric.score === cosineSimilarity || metric.score === dotProduct) {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < length; i++) {
+      dot += codesA[i] * codesB[i];
+      normA += codesA[i] * codesA[i];
+      normB += codesB[i] * codesB[i];
+    }
+    if (metric.score === dotProduct) return dot * a.scale * b.scale;
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+  }
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    const diff = codesA[i] * a.scale - codesB[i] * b.scale;
+    sum += metric.score === euclideanDistance ? diff * diff : Math.abs(diff);
+  }
+  return metric.score === euclideanDistance ? Math.sqrt(sum) : sum;
+};
+
+/**
+ * Scores two binary vectors from the number of differing bits: equal bits contribute the product
+ * or difference of the scales, differing ones their negated product or sum.
+ */
+const scoreBinary = (metric: ResolvedMetric, a: QuantizedVector, b: QuantizedVector): number => {
+  const length = Math.min(a.length, b.length);
+  const differing = hammingDistance(a.codes as Uint8Array, b.codes as Uint8Array, length);
+  const equal = length - differing;
+  if (metric.score === cosineSimilarity)
+    return length === 0 || a.scale === 0 || b.scale === 0 ? 0 : (equal - differing) / length;
+  if (metric.score === dotProduct) return (equal - differing) * a.scale * b.scale;
+  if (metric.score === euclideanDistance) {
+    return Math.sqrt(equal * (a.scale - b.scale) ** 2 + differing * (a.scale + b.scale) ** 2);
+  }
+  return equal * Math.abs(a.scale - b.scale) + differing * (a.scale + b.scale);
+};
+
+/**
+ * Scores a full-precision vector, such as a query, against a quantized one, reading its codes in place.
+ */
+const scoreCodes = (metric: ResolvedMetric, a: FloatVector, b: QuantizedVector): number => {
+  const length = Math.min(a.length, b.length);
+  const values = valuesOf(a);
+  const offset = offsetOf(a);
+  const codes = b.codes;
+  const int8 = b.type === 'int8';
+
+  if (metric.score === cosineSimilarity || metric.score === dotProduct) {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    if (int8) {
+      for (let i = 0; i < length; i++) {
+        const x = values[offset + i];
+        dot += x * codes[i];
+        normA += x * x;
+        normB += codes[i] * codes[i];
+      }
+    } else {
+      for (let i = 0; i < length; i++) {
+        const x = values[offset + i];
+        dot += codes[i >> 3] & (1 << (i & 7)) ? x : -x;
+        normA += x * x;
+      }
+      normB = length;
+    }
+    if (metric.score === dotProduct) return dot * b.scale;
+    return normA === 0 || normB === 0 || b.scale === 0 ? 0 : dot / Math.sqrt(normA * normB);
+  }
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    const y = int8 ? codes[i] * b.scale : codes[i >> 3] & (1 << (i & 7)) ? b.scale : -b.scale;
+    const diff = values[offset + i] - y;
+    sum += metric.score === euclideanDistance ? diff * diff : Math.abs(diff);
+  }
+  return metric.score === euclideanDistance ? Math.sqrt(sum) : sum;
+};
+
+/**
+ * Distance derived from a metric, lower is closer, as needed by graph indexes.
+ */
+export const toDistance =
+  (metric: ResolvedMetric) =>
+  (a: AnyVector, b: AnyVector): number =>
+    metric.higherIsBetter ? -scoreVectors(metric, a, b) : scoreVectors(metric, a, b);
+
+/**
+ * Scores a query against the full-precision values of a vector, or its quantized ones when they were not kept.
+ */
+export const scoreFullPrecision = (metric: ResolvedMetric, query: number[], vector: StoredVector): number =>
+  isFloat(vector) || !vector.full ? scoreVectors(metric, query, vector) : metric.score(query, Array.from(vector.full));
+
+/**
+ * Saved form of a vector: its values, or its codes and scale when only the quantized vector is kept.
+ */
+export const serializeVector = (vector: StoredVector): [values: number[], scale?: number] => {
+  if (isFloat(vector)) return [dequantize(vector)];
+  if (vector.full) return [Array.from(vector.full)];
+  return [Array.from(vector.codes), vector.scale];
+};
+
+/**
+ * Rebuilds a vector saved as codes by `serializeVector`.
+ */
+export const fromCodes = (
+  type: MemoryVectorQuantizationType,
+  codes: number[],
+  scale: number,
+  length: number
+): QuantizedVector => ({
+  type,
+  codes: type === 'int8' ? Int8Array.from(codes) : Uint8Array.from(codes),
+  scale,
+  length,
+});
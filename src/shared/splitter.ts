@@ -0,0 +1,168 @@
+import { MemoryTextSplitter, MemoryTextSplitterName, MemoryTextSplitterOptions } from '../interface';
+import { MemoryVectorStoreError } from './errors';
+
+/**
+ * Part of the text as [start, end) offsets, so chunks can be located in the text they come from.
+ */
+type Range = [start: number, end: number];
+
+const DEFAULT_SEPARATORS = ['\n\n', '\n', ' ', ''];
+
+/**
+ * Ends of sentences, with the closing quotes or brackets and the whitespace that follow them.
+ * Full-width punctuation needs no whitespace after it.
+ */
+const SENTENCE_END = /[.!?]+["'”’)\]]*\s+|[。！？]+\s*|\n\s*\n\s*/g;
+
+const FENCE = /^ {0,3}(```|~~~)/;
+const HEADING = /^ {0,3}#{1,6}(\s|$)/;
+
+const checkOptions = ({ chunkSize, overlap }: MemoryTextSplitterOptions): void => {
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new MemoryVectorStoreError(`chunkSize must be a positive integer, got ${chunkSize}`);
+  }
+  if (!Number.isInteger(overlap) || overlap < 0 || overlap >= chunkSize) {
+    throw new MemoryVectorStoreError(`overlap must be an integer from 0 to chunkSize - 1, got ${overlap}`);
+  }
+};
+
+/**
+ * Cuts the range after every occurrence of the separator, which stays at the end of its piece.
+ */
+const cut = (text: string, [start, end]: Range, separator: string): Range[] => {
+  const pieces: Range[] = [];
+  let from = start;
+  for (let at = text.indexOf(separator, from); at >= 0 && at + separator.length <= end; ) {
+    pieces.push([from, at + separator.length]);
+    from = at + separator.length;
+    at = text.indexOf(separator, from);
+  }
+  if (from < end) pieces.push([from, end]);
+  return pieces;
+};
+
+/**
+ * Splits the range into pieces of at most `chunkSize` characters, at the first separator found in it.
+ * Pieces still too long are split at the next separators; the empty separator cuts anywhere.
+ */
+const splitRange = (text: string, range: Range, chunkSize: number, separators: string[]): Range[] => {
+  const [start, end] = range;
+  if (end - start <= chunkSize) return [range];
+
+  const index = separators.findIndex((separator) => {
+    if (separator === '') return true;
+    const at = text.indexOf(separator, start);
+    return at >= 0 && at + separator.length <= end;
+  });
+  if (index < 0 || separators[index] === '') {
+    const pieces: Range[] = [];
+    for (let at = start; at < end; at += chunkSize) pieces.push([at, Math.min(at + chunkSize, end)]);
+    return pieces;
+  }
+
+  const rest = separators.slice(index + 1);
+  return cut(text, range, separators[index]).flatMap((piece) => splitRange(text, piece, chunkSize, rest));
+};
+
+/**
+ * Joins consecutive pieces into chunks of at most `chunkSize` characters.
+ * Each chunk starts with the last pieces of the previous one, as long as they fit within `overlap`.
+ */
+const merge = (pieces: Range[], { chunkSize, overlap }: MemoryTextSplitterOptions): Range[] => {
+  const chunks: Range[] = [];
+  let first = 0;
+  for (let i = 1; i <= pieces.length; i++) {
+    if (i < pieces.length && pieces[i][1] - pieces[first][0] <= chunkSize) continue;
+    chunks.push([pieces[first][0], pieces[i - 1][1]]);
+    if (i === pieces.length) break;
+
+    let next = i;
+    while (
+      next - 1 > first &&
+      pieces[i - 1][1] - pieces[next - 1][0] <= overlap &&
+      pieces[i][1] - pieces[next - 1][0] <= chunkSize
+    ) {
+      next--;
+    }
+    first = next;
+  }
+  return chunks;
+};
+
+const toChunks = (text: string, ranges: Range[]): string[] =>
+  ranges.map(([start, end]) => text.slice(start, end).trim()).filter((chunk) => chunk.length > 0);
+
+/**
+ * Splits at paragraphs, then lines, then words, then characters, and joins the pieces back into chunks
+ * of at most `chunkSize` characters.
+ */
+export const recursiveCharacterSplitter: MemoryTextSplitter = (text, options) => {
+  checkOptions(options);
+  return toChunks(text, merge(splitRange(text, [0, text.length], options.chunkSize, DEFAULT_SEPARATORS), options));
+};
+
+/**
+ * Splits at sentence ends and joins whole sentences into chunks. Sentences longer than a chunk are cut between words.
+ */
+export const sentenceSplitter: MemoryTextSplitter = (text, options) => {
+  checkOptions(options);
+  const sentences: Range[] = [];
+  let from = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    sentences.push([from, end]);
+    from = end;
+  }
+  if (from < text.length) sentences.push([from, text.length]);
+
+  const pieces = sentences.flatMap((sentence) => splitRange(text, sentence, options.chunkSize, [' ', '']));
+  return toChunks(text, merge(pieces, options));
+};
+
+/**
+ * Starts a chunk at every heading outside code blocks. Sections longer than a chunk are split like
+ * `recursiveCharacterSplitter`, without overlapping the previous section.
+ */
+export const markdownHeadingSplitter: MemoryTextSplitter = (text, options) => {
+  checkOptions(options);
+  const sections: Range[] = [];
+  let start = 0;
+  let fenced = false;
+  for (let at = 0; at < text.length; ) {
+    const lineEnd = text.indexOf('\n', at);
+    const next = lineEnd < 0 ? text.length : lineEnd + 1;
+    const line = text.slice(at, next);
+    if (FENCE.test(line)) {
+      fenced = !fenced;
+    } else if (!fenced && at > start && HEADING.test(line)) {
+      sections.push([start, at]);
+      start = at;
+    }
+    at = next;
+  }
+  sections.push([start, text.length]);
+
+  return sections.flatMap((section) =>
+    toChunks(text, merge(splitRange(text, section, options.chunkSize, DEFAULT_SEPARATORS), options))
+  );
+};
+
+export const textSplitters: Record<MemoryTextSplitterName, MemoryTextSplitter> = {
+  recursive: recursiveCharacterSplitter,
+  sentence: sentenceSplitter,
+  markdown: markdownHeadingSplitter,
+};
+
+/**
+ * Locates the chunks in the text they were split from, searching each one after the start of the previous.
+ *
+ * @returns The offset of each chunk, -1 for chunks the splitter changed
+ */
+export const chunkOffsets = (text: string, chunks: string[]): number[] => {
+  let from = 0;
+  return chunks.map((chunk) => {
+    const start = text.indexOf(chunk, from);
+    if (start >= 0) from = start + 1;
+    return start;
+  });
+};
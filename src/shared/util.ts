@@ -1,29 +1,3 @@
-export class Locker {
-  private promise: Promise<void> = Promise.resolve();
-  private resolve: () => void = () => {};
-  private _isLocked = false;
-
-  constructor() {
-    this.lock();
-  }
-  lock() {
-    this._isLocked = true;
-    this.promise = new Promise((resolve) => {
-      this.resolve = resolve;
-    });
-  }
-  unLock() {
-    this._isLocked = false;
-    this.resolve();
-  }
-  wait() {
-    return this.promise;
-  }
-  isLocked() {
-    return this._isLocked;
-  }
-}
-
 export const debounce = (() => {
   const cache = new Map<string, ReturnType<typeof setTimeout>>();
   return (key: string, func: () => void, delay: number) => {
@@ -43,3 +17,75 @@ export const debounce = (() => {
     );
   };
 })();
+
+export const parallel = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+  let cursor = 0;
+  const run = async () => {
+    while (cursor < items.length) {
+      const index = cursor++;
+      await worker(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, run));
+};
+
+export const chunkArray = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const cyrb53 = (length: number, codeAt: (index: number) => number, seed: number): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < length; i++) {
+    const ch = codeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+/**
+ * Fast non-cryptographic 53-bit string hash (cyrb53), returned as a hex string.
+ * Works the same in Node.js and browsers.
+ */
+export const hashString = (text: string, seed: number = 0): string =>
+  cyrb53(text.length, (i) => text.charCodeAt(i), seed);
+
+/**
+ * The same hash over raw bytes, used to checksum binary files.
+ */
+export const hashBytes = (bytes: Uint8Array, seed: number = 0): string => cyrb53(bytes.length, (i) => bytes[i], seed);
+
+/**
+ * Small seeded PRNG (mulberry32) so randomized structures are reproducible.
+ */
+export const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const isPromise = <T>(value: T | Promise<T>): value is Promise<T> =>
+  typeof (value as Promise<T>)?.then === 'function';
+
+const encoder = new TextEncoder();
+
+/**
+ * UTF-8 byte length of a string, without relying on Node's Buffer.
+ */
+export const byteLength = (text: string): number => encoder.encode(text).length;
@@ -0,0 +1,258 @@
+import {
+  MemoryVectorDataSerialize,
+  MemoryVectorPrecision,
+  MemoryVectorSnapshot,
+  MemoryVectorStoreData,
+} from '../interface';
+import { MemoryVectorStoreError } from '../shared/errors';
+import { byteLength } from '../shared/util';
+
+/**
+ * Snapshot split into its vectors, packed into a single Float32Array, and everything else.
+ */
+export interface PackedSnapshot {
+  snapshot: Omit<MemoryVectorSnapshot, 'items'> | null;
+  items: unknown[][];
+  lengths: Uint32Array;
+  vectors: Float32Array;
+}
+
+export const packSnapshot = (data: MemoryVectorStoreData): PackedSnapshot => {
+  const items = Array.isArray(data) ? data : data.items;
+  const lengths = new Uint32Array(items.length);
+  let total = 0;
+  items.forEach(([, vector], i) => {
+    lengths[i] = vector.length;
+    total += vector.length;
+  });
+
+  const vectors = new Float32Array(total);
+  let offset = 0;
+  const stripped = items.map(([content, vector, ...rest]) => {
+    vectors.set(vector, offset);
+    offset += vector.length;
+    return [content, ...rest];
+  });
+
+  let snapshot: Partial<MemoryVectorSnapshot> | null = null;
+  if (!Array.isArray(data)) {
+    snapshot = { ...data };
+    delete snapshot.items;
+  }
+  return { snapshot: snapshot as PackedSnapshot['snapshot'], items: stripped, lengths, vectors };
+};
+
+/**
+ * Approximate size of the record `packSnapshot` produces: four bytes per vector value and per length,
+ * plus the JSON of everything else. Items are measured one at a time, so no text of the whole store is built.
+ */
+export const packedSnapshotSize = (data: MemoryVectorStoreData): number => {
+  const items = Array.isArray(data) ? data : data.items;
+  let size = Array.isArray(data) ? 0 : byteLength(JSON.stringify({ ...data, items: undefined }));
+  for (const [content, vector, ...rest] of items) {
+    size += (vector.length + 1) * 4 + byteLength(JSON.stringify([content, ...rest]));
+  }
+  return size;
+};
+
+export const unpackSnapshot = (packed: PackedSnapshot): MemoryVectorStoreData => {
+  let offset = 0;
+  const items = packed.items.map(([content, ...rest], i) => {
+    const vector = Array.from(packed.vectors.subarray(offset, offset + packed.lengths[i]));
+    offset += packed.lengths[i];
+    return [content, vector, ...rest] as MemoryVectorDataSerialize;
+  });
+  return packed.snapshot ? { ...packed.snapshot, items } : items;
+};
+
+const MAGIC = [0x4d, 0x56, 0x53, 0x42]; // "MVSB"
+const FORMAT_VERSION = 2;
+/** Files without byte values keep the first version, readable by earlier releases */
+const FLOAT_FORMAT_VERSION = 1;
+const HEADER_SIZE = 24;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const float32 = new Float32Array(1);
+const uint32 = new Uint32Array(float32.buffer);
+
+/**
+ * Rounds a number to the nearest IEEE 754 half precision value and returns its bits.
+ */
+export const toFloat16Bits = (value: number): number => {
+  float32[0] = value;
+  const bits = uint32[0];
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = ((bits >>> 23) & 0xff) - 112;
+  let mantissa = bits & 0x7fffff;
+
+  if (exponent >= 0x1f) {
+    // Overflow, infinity or NaN
+    const nan = (bits & 0x7fffffff) > 0x7f800000;
+    return sign | 0x7c00 | (nan ? 0x200 : 0);
+  }
+  if (exponent <= 0) {
+    // Subnormal half, or zero when too small
+    if (exponent < -10) return sign;
+    mantissa = (mantissa | 0x800000) >> (1 - exponent);
+    return sign | ((mantissa + 0x1000) >> 13);
+  }
+  // Rounding may carry into the exponent, which is the correctly rounded result
+  return sign | ((exponent << 10) + ((mantissa + 0x1000) >> 13));
+};
+
+export const fromFloat16Bits = (bits: number): number => {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const mantissa = bits & 0x3ff;
+  if (exponent === 0) return sign * mantissa * 2 ** -24;
+  if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+  return sign * (1 + mantissa / 1024) * 2 ** (exponent - 15);
+};
+
+/**
+ * Checks for the binary format's magic bytes, so loaders can tell it apart from JSON.
+ */
+export const isBinarySnapshot = (bytes: Uint8Array): boolean =>
+  bytes.length >= HEADER_SIZE && MAGIC.every((byte, i) => bytes[i] === byte);
+
+/**
+ * Quantized codes are whole numbers fitting in a byte: signed for int8, unsigned bit sets for binary.
+ */
+const bytesPerValueOf = (data: MemoryVectorStoreData, precision: MemoryVectorPrecision): number => {
+  if (!Array.isArray(data) && data.quantization) return 1;
+  return precision === 'float16' ? 2 : 4;
+};
+
+const commonDimension = (lengths: Uint32Array): number => {
+  const dimension = lengths[0] ?? 0;
+  return lengths.every((length) => length === dimension) ? dimension : 0;
+};
+
+/**
+ * Encodes store data into the binary format:
+ *
+ * - a 24 byte header: magic "MVSB", format version, bytes per value, dimension (0 when vectors differ in length),
+ *   item count, metric name length and JSON block length, all little-endian
+ * - the metric name
+ * - the vector lengths, only when the dimension is 0
+ * - the vectors, back to back as Float32 or Float16 values, or as bytes when the snapshot records a quantization
+ * - a JSON block with the content, metadata and ids of the items plus the persisted indexes
+ */
+export const encodeBinarySnapshot = (
+  data: MemoryVectorStoreData,
+  precision: MemoryVectorPrecision = 'float32'
+): Uint8Array => {
+  const packed = packSnapshot(data);
+  const quantization = packed.snapshot?.quantization;
+  const bytesPerValue = bytesPerValueOf(data, precision);
+  const dimension = commonDimension(packed.lengths);
+  const metric = encoder.encode(packed.snapshot?.metric ?? '');
+  const json = encoder.encode(JSON.stringify({ snapshot: packed.snapshot, items: packed.items }));
+  const lengthsSize = dimension === 0 ? packed.lengths.length * 4 : 0;
+
+  const bytes = new Uint8Array(
+    HEADER_SIZE + metric.length + lengthsSize + packed.vectors.length * bytesPerValue + json.length
+  );
+  const view = new DataView(bytes.buffer);
+  bytes.set(MAGIC, 0);
+  view.setUint16(4, quantization ? FORMAT_VERSION : FLOAT_FORMAT_VERSION, true);
+  view.setUint8(6, bytesPerValue);
+  view.setUint32(8, dimension, true);
+  view.setUint32(12, packed.lengths.length, true);
+  view.setUint32(16, metric.length, true);
+  view.setUint32(20, json.length, true);
+
+  let offset = HEADER_SIZE;
+  bytes.set(metric, offset);
+  offset += metric.length;
+  if (dimension === 0) {
+    for (const length of packed.lengths) {
+      view.setUint32(offset, length, true);
+      offset += 4;
+    }
+  }
+  for (const value of packed.vectors) {
+    if (quantization === 'binary') view.setUint8(offset, value);
+    else if (quantization) view.setInt8(offset, value);
+    else if (bytesPerValue === 2) view.setUint16(offset, toFloat16Bits(value), true);
+    else view.setFloat32(offset, value, true);
+    offset += bytesPerValue;
+  }
+  bytes.set(json, offset);
+  return bytes;
+};
+
+/**
+ * Size in bytes of the encoded data, computed without allocating the vector block.
+ */
+export const binarySnapshotSize = (
+  data: MemoryVectorStoreData,
+  precision: MemoryVectorPrecision = 'float32'
+): number => {
+  const items = Array.isArray(data) ? data : data.items;
+  const metric = Array.isArray(data) ? '' : data.metric;
+  let values = 0;
+  let uniform = true;
+  for (const [, vector] of items) {
+    values += vector.length;
+    uniform &&= vector.length === items[0][1].length;
+  }
+  const rest = {
+    snapshot: Array.isArray(data) ? null : { ...data, items: undefined },
+    items: items.map(([content, , ...other]) => [content, ...other]),
+  };
+  return (
+    HEADER_SIZE +
+    encoder.encode(metric).length +
+    (uniform && items[0]?.[1].length ? 0 : items.length * 4) +
+    values * bytesPerValueOf(data, precision) +
+    encoder.encode(JSON.stringify(rest)).length
+  );
+};
+
+export const decodeBinarySnapshot = (bytes: Uint8Array): MemoryVectorStoreData => {
+  if (!isBinarySnapshot(bytes)) throw new MemoryVectorStoreError('Data is not in the binary vector store format');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint16(4, true);
+  if (version > FORMAT_VERSION) {
+    throw new MemoryVectorStoreError(`Unsupported binary vector store format version ${version}`);
+  }
+  const bytesPerValue = view.getUint8(6);
+  const dimension = view.getUint32(8, true);
+  const count = view.getUint32(12, true);
+  const metricLength = view.getUint32(16, true);
+  const jsonLength = view.getUint32(20, true);
+
+  let offset = HEADER_SIZE;
+  const metric = decoder.decode(bytes.subarray(offset, offset + metricLength));
+  offset += metricLength;
+
+  const lengths = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    if (dimension === 0) {
+      lengths[i] = view.getUint32(offset, true);
+      offset += 4;
+    } else {
+      lengths[i] = dimension;
+    }
+  }
+
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  // The JSON block records whether byte values are signed
+  const jsonOffset = offset + total * bytesPerValue;
+  const { snapshot, items } = JSON.parse(decoder.decode(bytes.subarray(jsonOffset, jsonOffset + jsonLength)));
+  const vectors = new Float32Array(total);
+  for (let i = 0; i < total; i++) {
+    if (bytesPerValue === 1) {
+      vectors[i] = snapshot?.quantization === 'binary' ? view.getUint8(offset) : view.getInt8(offset);
+    } else {
+      vectors[i] = bytesPerValue === 2 ? fromFloat16Bits(view.getUint16(offset, true)) : view.getFloat32(offset, true);
+    }
+    offset += bytesPerValue;
+  }
+
+  return unpackSnapshot({ snapshot: snapshot && { ...snapshot, metric }, items, lengths, vectors });
+};
@@ -0,0 +1,68 @@
+import { MemoryVectorStorageProvider, MemoryVectorStoreData } from '../interface';
+import { PackedSnapshot, packSnapshot, packedSnapshotSize, unpackSnapshot } from './binary-format';
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+/**
+ * Storage provider backed by IndexedDB.
+ * Unlike localStorage it is asynchronous and not limited to a few megabytes.
+ * Vectors are stored as 32-bit floats, halving their size at the cost of some precision.
+ *
+ * @class IndexedDBStorageProvider
+ */
+export class IndexedDBStorageProvider implements MemoryVectorStorageProvider {
+  private database?: Promise<IDBDatabase>;
+
+  /**
+   * @param dbName - Name of the IndexedDB database
+   * @param storeName - Name of the object store holding one record per storage key
+   */
+  constructor(
+    private dbName: string = 'memory-vector-store',
+    private storeName: string = 'vectors'
+  ) {}
+
+  async save(key: string, data: MemoryVectorStoreData): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await request(store.put(packSnapshot(data), key));
+  }
+
+  async load(key: string): Promise<MemoryVectorStoreData> {
+    const store = await this.objectStore('readonly');
+    const record: PackedSnapshot | undefined = await request(store.get(key));
+    return record ? unpackSnapshot(record) : [];
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const store = await this.objectStore('readonly');
+    return (await request(store.count(key))) > 0;
+  }
+
+  size(data: MemoryVectorStoreData): number {
+    return packedSnapshotSize(data);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const req = indexedDB.open(this.dbName, 1);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(this.storeName)) {
+          req.result.createObjectStore(this.storeName);
+        }
+      };
+      this.database = request(req);
+      // Allow a later call to retry after a failed open
+      this.database.catch(() => (this.database = undefined));
+    }
+    return this.database;
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+}
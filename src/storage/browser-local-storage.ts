@@ -1,16 +1,48 @@
-import { MemoryVectorDataSerialize, MemoryVectorStorageProvider } from '../interface';
+import { MemoryVectorStorageProviderOptions, MemoryVectorStorageProvider, MemoryVectorStoreData } from '../interface';
+import { byteLength } from '../shared/util';
+import { binarySnapshotSize, decodeBinarySnapshot, encodeBinarySnapshot } from './binary-format';
+
+/**
+ * localStorage only holds strings, so binary data is saved as base64 behind this prefix.
+ * JSON data always starts with '[' or '{' and cannot be mistaken for it.
+ */
+const BINARY_PREFIX = 'mvsb:';
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
 
 export class BrowserStorageProvider implements MemoryVectorStorageProvider {
-  save(key: string, vectors: MemoryVectorDataSerialize[]): void {
-    localStorage.setItem(key, JSON.stringify(vectors));
+  constructor(private options: MemoryVectorStorageProviderOptions = {}) {}
+
+  save(key: string, data: MemoryVectorStoreData): void {
+    if (this.options.format === 'binary') {
+      localStorage.setItem(key, BINARY_PREFIX + toBase64(encodeBinarySnapshot(data, this.options.precision)));
+    } else {
+      localStorage.setItem(key, JSON.stringify(data));
+    }
   }
 
-  load(key: string): MemoryVectorDataSerialize[] {
+  load(key: string): MemoryVectorStoreData {
     const data = localStorage.getItem(key);
+    if (data?.startsWith(BINARY_PREFIX)) return decodeBinarySnapshot(fromBase64(data.slice(BINARY_PREFIX.length)));
     return data ? JSON.parse(data) : [];
   }
 
   exists(key: string): boolean {
     return localStorage.getItem(key) !== null;
   }
+
+  size(data: MemoryVectorStoreData): number {
+    if (this.options.format === 'binary') {
+      return BINARY_PREFIX.length + Math.ceil(binarySnapshotSize(data, this.options.precision) / 3) * 4;
+    }
+    return byteLength(JSON.stringify(data));
+  }
 }
@@ -0,0 +1,163 @@
+import {
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  unlinkSync,
+  writeSync,
+  closeSync,
+  renameSync,
+  linkSync,
+} from 'fs';
+import { dirname } from 'path';
+import { StoreLockedError } from '../shared/errors';
+
+export interface FileLockOptions {
+  timeoutMs: number;
+  staleMs: number;
+}
+
+/**
+ * Locks held by this process, with a count so nested acquisitions do not wait for themselves.
+ */
+const held = new Map<string, number>();
+
+const sleep = (ms: number) => Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+
+const isAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+/**
+ * A lock is stale when its owner died or it is older than `staleMs`, e.g. after a crash on another host.
+ *
+ * @returns The content of the stale lock, or undefined when it is held or was removed meanwhile
+ */
+const readStale = (path: string, staleMs: number): string | undefined => {
+  try {
+    const content = readFileSync(path, 'utf8');
+    const [pid, time] = content.split('\n').map(Number);
+    return Date.now() - time > staleMs || (pid !== process.pid && !isAlive(pid)) ? content : undefined;
+  } catch {
+    // Unreadable or removed meanwhile: retry the creation
+    return undefined;
+  }
+};
+
+/**
+ * Removes the stale lock without racing another process that replaced it meanwhile:
+ * the file is first moved to a name only this process uses, and put back when it is not the stale one.
+ */
+const removeStale = (path: string, stale: string): void => {
+  const moved = `${path}.${process.pid}-${Date.now()}.stale`;
+  try {
+    renameSync(path, moved);
+  } catch {
+    // Another process removed it first
+    return;
+  }
+  if (readFileSync(moved, 'utf8') !== stale) {
+    try {
+      linkSync(moved, path);
+    } catch {
+      // A newer lock took its place meanwhile
+    }
+  }
+  unlinkSync(moved);
+};
+
+/**
+ * Tries once to create the lock file, which holds the owner's pid and the creation time.
+ * A stale lock is removed and the creation tried again.
+ *
+ * @returns Whether the lock was created
+ */
+const tryCreate = (path: string, staleMs: number): boolean => {
+  for (;;) {
+    try {
+      const fd = openSync(path, 'wx');
+      writeSync(fd, `${process.pid}\n${Date.now()}`);
+      closeSync(fd);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    const stale = readStale(path, staleMs);
+    if (stale === undefined) return false;
+    removeStale(path, stale);
+  }
+};
+
+const ensureDirectory = (path: string): void => {
+  const dir = dirname(path);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+};
+
+/**
+ * Records one more acquisition of a lock this process holds.
+ *
+ * @returns A function releasing it, removing the file with the last release
+ */
+const hold = (path: string): (() => void) => {
+  held.set(path, (held.get(path) ?? 0) + 1);
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const remaining = held.get(path)! - 1;
+    if (remaining > 0) {
+      held.set(path, remaining);
+      return;
+    }
+    held.delete(path);
+    try {
+      unlinkSync(path);
+    } catch {
+      // Already removed as stale
+    }
+  };
+};
+
+/**
+ * Acquires an advisory lock by exclusively creating `path`.
+ * Waits with timers until the lock is free or `timeoutMs` elapsed, removing stale locks on the way,
+ * so other work keeps running meanwhile.
+ *
+ * @returns A promise resolving to a function releasing the lock
+ */
+export const acquireFileLock = async (path: string, options: FileLockOptions): Promise<() => void> => {
+  if (!held.has(path)) {
+    ensureDirectory(path);
+    const deadline = Date.now() + options.timeoutMs;
+    for (let delay = 5; !tryCreate(path, options.staleMs); delay = Math.min(delay * 2, 100)) {
+      if (Date.now() >= deadline) throw new StoreLockedError(path);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+  return hold(path);
+};
+
+/**
+ * Acquires the lock like `acquireFileLock`, blocking the thread while waiting.
+ * For providers whose saves and loads complete synchronously, such as the load a store runs when it is created.
+ *
+ * @returns A function releasing the lock
+ */
+export const acquireFileLockSync = (path: string, options: FileLockOptions): (() => void) => {
+  if (!held.has(path)) {
+    ensureDirectory(path);
+    const deadline = Date.now() + options.timeoutMs;
+    for (let delay = 5; !tryCreate(path, options.staleMs); delay = Math.min(delay * 2, 100)) {
+      if (Date.now() >= deadline) throw new StoreLockedError(path);
+      sleep(delay);
+    }
+  }
+  return hold(path);
+};
@@ -1,23 +1,336 @@
-import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
-import { dirname } from 'path';
-import { MemoryVectorDataSerialize, MemoryVectorStorageProvider } from '../interface';
+import {
+  appendFileSync,
+  closeSync,
+  copyFileSync,
+  existsSync,
+  fsyncSync,
+  linkSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  truncateSync,
+  unlinkSync,
+  watch,
+  writeFileSync,
+} from 'fs';
+import { basename, dirname } from 'path';
+import {
+  MemoryVectorDataSerialize,
+  MemoryVectorLogOperation,
+  MemoryVectorStorageProviderOptions,
+  MemoryVectorStorageProvider,
+  MemoryVectorStoreData,
+} from '../interface';
+import { StoreCorruptedError } from '../shared/errors';
+import { hashBytes, hashString } from '../shared/util';
+import { acquireFileLock, acquireFileLockSync, FileLockOptions } from './node-file-lock';
+import { binarySnapshotSize, decodeBinarySnapshot, encodeBinarySnapshot, isBinarySnapshot } from './binary-format';
+
+const logPath = (key: string) => `${key}.log`;
+const backupPath = (key: string) => `${key}.bak`;
+
+/**
+ * JSON snapshots end with a `"checksum"` property hashing the text before it,
+ * so the file stays plain JSON while truncation or bit rot is detected.
+ */
+const CHECKSUM_PATTERN = /,"checksum":"([0-9a-f]{14})"}$/;
+const JSON_CHECKSUM_SIZE = ',"checksum":""'.length + 14;
+
+/**
+ * Binary snapshots get a trailer with the hash of the bytes before it, ignored by the decoder.
+ */
+const BINARY_TRAILER = 'MVSC';
+const BINARY_TRAILER_SIZE = BINARY_TRAILER.length + 14;
+
+const withChecksum = (
+  data: MemoryVectorStoreData,
+  format: MemoryVectorStorageProviderOptions['format'],
+  precision: MemoryVectorStorageProviderOptions['precision']
+): Buffer => {
+  if (format === 'binary') {
+    const bytes = encodeBinarySnapshot(data, precision);
+    return Buffer.concat([bytes, Buffer.from(BINARY_TRAILER + hashBytes(bytes), 'latin1')]);
+  }
+  const json = JSON.stringify(data);
+  // Legacy arrays cannot carry a property and are checked by parsing only
+  if (Array.isArray(data)) return Buffer.from(json, 'utf8');
+  const body = json.slice(0, -1);
+  return Buffer.from(`${body},"checksum":"${hashString(body)}"}`, 'utf8');
+};
+
+const verifyBinary = (content: Buffer): Uint8Array => {
+  const trailer = content.subarray(content.length - BINARY_TRAILER_SIZE);
+  if (trailer.subarray(0, BINARY_TRAILER.length).toString('latin1') !== BINARY_TRAILER) return content;
+  const bytes = content.subarray(0, content.length - BINARY_TRAILER_SIZE);
+  if (hashBytes(bytes) !== trailer.subarray(BINARY_TRAILER.length).toString('latin1')) {
+    throw new Error('Checksum mismatch');
+  }
+  return bytes;
+};
+
+const parseJson = (text: string): MemoryVectorStoreData => {
+  // Only the end of the text can hold the checksum, avoid scanning the whole file
+  const tail = text.slice(-(JSON_CHECKSUM_SIZE + 1));
+  const match = CHECKSUM_PATTERN.exec(tail);
+  if (match && hashString(text.slice(0, text.length - tail.length + match.index)) !== match[1]) {
+    throw new Error('Checksum mismatch');
+  }
+  const data = JSON.parse(text || '[]');
+  if (!Array.isArray(data)) delete data.checksum;
+  return data;
+};
+
+/**
+ * Log records are single lines prefixed with a hash of their JSON,
+ * so a record torn by a crash mid-write is detected and dropped.
+ */
+const toRecord = (operation: MemoryVectorLogOperation): string => {
+  const json = JSON.stringify(operation);
+  return `${hashString(json)} ${json}\n`;
+};
+
+const parseRecord = (line: string): MemoryVectorLogOperation | undefined => {
+  const separator = line.indexOf(' ');
+  const json = line.slice(separator + 1);
+  if (separator === -1 || hashString(json) !== line.slice(0, separator)) return undefined;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * File state after this process last read or wrote it, shared by all providers of the process.
+ */
+const signatures = new Map<string, string>();
+
+const MISSING = '-:-:-:-';
+
+const signature = (key: string): string => {
+  const stat = (path: string) => (existsSync(path) ? statSync(path) : undefined);
+  const snapshot = stat(key);
+  const log = stat(logPath(key));
+  return `${snapshot?.mtimeMs ?? '-'}:${snapshot?.size ?? '-'}:${log?.mtimeMs ?? '-'}:${log?.size ?? '-'}`;
+};
 
 export class NodeStorageProvider implements MemoryVectorStorageProvider {
-  save(key: string, vectors: MemoryVectorDataSerialize[]): void {
+  /**
+   * Appends the operations to `{key}.log`. Only defined with the log enabled, otherwise every save rewrites the snapshot.
+   * Asks for a compaction when there is no snapshot yet or the log outgrew its thresholds.
+   */
+  append?: (key: string, operations: MemoryVectorLogOperation[]) => boolean;
+
+  constructor(private options: MemoryVectorStorageProviderOptions = {}) {
+    if (options.log) this.append = (key, operations) => this.appendLog(key, operations);
+  }
+
+  /**
+   * Writes to a temporary file, flushes it to disk and renames it over the target,
+   * so a crash leaves either the previous or the new snapshot, never a truncated one.
+   * The previous snapshot is kept as `{key}.bak` unless backups are disabled.
+   */
+  save(key: string, data: MemoryVectorStoreData): void {
+    this.locked(key, () => this.write(key, data));
+  }
+
+  /**
+   * Loads the snapshot with its logged changes.
+   * An unreadable snapshot is moved aside and reported with a StoreCorruptedError carrying the backup's data.
+   * Synchronous, blocking while another process holds the lock, as stores load when they are created.
+   */
+  load(key: string): MemoryVectorStoreData {
+    return this.locked(key, () => this.read(key));
+  }
+
+  exists(key: string): boolean {
+    return existsSync(key) || existsSync(logPath(key));
+  }
+
+  size(data: MemoryVectorStoreData): number {
+    if (this.options.format === 'binary') {
+      return binarySnapshotSize(data, this.options.precision) + BINARY_TRAILER_SIZE;
+    }
+    return Buffer.byteLength(JSON.stringify(data), 'utf8') + (Array.isArray(data) ? 0 : JSON_CHECKSUM_SIZE);
+  }
+
+  /**
+   * Acquires the advisory `{key}.lock` file shared with other processes.
+   * Nested calls within this process do not wait; save, load and append take the lock themselves.
+   * Waits with timers, so the event loop keeps running while another process holds it.
+   *
+   * @returns A promise resolving to a function releasing the lock
+   */
+  async lock(key: string): Promise<() => void> {
+    if (this.options.lock === false) return () => {};
+    return acquireFileLock(`${key}.lock`, this.lockOptions());
+  }
+
+  /**
+   * Whether another process wrote the snapshot or its log since this process last read or wrote them.
+   */
+  changed(key: string): boolean {
+    return signature(key) !== (signatures.get(key) ?? MISSING);
+  }
+
+  /**
+   * Calls the listener when the snapshot or its log changes on disk, including by this process.
+   * The directory is watched because saves replace the file.
+   *
+   * @returns A function stopping the watcher
+   */
+  watch(key: string, listener: () => void): () => void {
+    const dir = dirname(key);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    const names = new Set([basename(key), basename(logPath(key))]);
+    const watcher = watch(dir, (_, filename) => {
+      if (filename && names.has(filename.toString())) listener();
+    });
+    // Watching must not keep the process alive
+    watcher.unref();
+    return () => watcher.close();
+  }
+
+  private appendLog(key: string, operations: MemoryVectorLogOperation[]): boolean {
+    if (!existsSync(key)) return true;
+    const { maxSizeMB = 64, compactRatio = 0.5 } = typeof this.options.log === 'object' ? this.options.log : {};
+
+    return this.locked(key, () => {
+      appendFileSync(logPath(key), operations.map(toRecord).join(''), 'utf8');
+      const logSize = statSync(logPath(key)).size;
+      return logSize > maxSizeMB * 1024 * 1024 || logSize > statSync(key).size * compactRatio;
+    });
+  }
+
+  private lockOptions(): FileLockOptions {
+    const { timeoutMs = 5000, staleMs = 30000 } = typeof this.options.lock === 'object' ? this.options.lock : {};
+    return { timeoutMs, staleMs };
+  }
+
+  /**
+   * Runs the action holding the lock, blocking while another process holds it.
+   * Does not wait when the store already holds the lock through `lock`.
+   */
+  private locked<R>(key: string, action: () => R): R {
+    const release = this.options.lock === false ? undefined : acquireFileLockSync(`${key}.lock`, this.lockOptions());
+    try {
+      return this.track(key, action());
+    } finally {
+      release?.();
+    }
+  }
+
+  /**
+   * Remembers the files as written or read by this process, for `changed`.
+   */
+  private track<R>(key: string, result: R): R {
+    signatures.set(key, signature(key));
+    return result;
+  }
+
+  private write(key: string, data: MemoryVectorStoreData): void {
     const dir = dirname(key);
     if (!existsSync(dir)) {
       mkdirSync(dir, { recursive: true });
     }
-    writeFileSync(key, JSON.stringify(vectors), 'utf8');
+
+    const temporary = `${key}.tmp`;
+    const fd = openSync(temporary, 'w');
+    try {
+      writeFileSync(fd, withChecksum(data, this.options.format, this.options.precision));
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    if (this.options.backup !== false && existsSync(key)) this.backup(key);
+    // Replaces the target atomically, it exists at every point in time
+    renameSync(temporary, key);
+
+    // The snapshot now contains every logged change
+    if (existsSync(logPath(key))) unlinkSync(logPath(key));
+  }
+
+  private read(key: string): MemoryVectorStoreData {
+    if (!existsSync(key)) return this.replay(key, []);
+
+    let data: MemoryVectorStoreData;
+    try {
+      data = this.readFile(key);
+    } catch (error) {
+      throw this.recover(key, error);
+    }
+    return this.replay(key, data);
   }
 
-  load(key: string): MemoryVectorDataSerialize[] {
-    if (!existsSync(key)) return [];
-    const data = readFileSync(key, 'utf8');
-    return JSON.parse(data || '[]');
+  /**
+   * Keeps the current snapshot as the backup: a hard link costs no copy and survives the rename over the target.
+   */
+  private backup(key: string): void {
+    const path = backupPath(key);
+    if (existsSync(path)) unlinkSync(path);
+    try {
+      linkSync(key, path);
+    } catch {
+      // File systems without hard links
+      copyFileSync(key, path);
+    }
   }
 
-  exists(key: string): boolean {
-    return existsSync(key);
+  private readFile(path: string): MemoryVectorStoreData {
+    const content = readFileSync(path);
+    if (isBinarySnapshot(content)) return decodeBinarySnapshot(verifyBinary(content));
+    return parseJson(content.toString('utf8'));
+  }
+
+  private recover(key: string, reason: unknown): StoreCorruptedError {
+    const corruptedPath = `${key}.corrupted-${Date.now()}`;
+    renameSync(key, corruptedPath);
+
+    let backup: MemoryVectorStoreData | undefined;
+    if (existsSync(backupPath(key))) {
+      try {
+        backup = this.replay(key, this.readFile(backupPath(key)));
+      } catch {
+        backup = undefined;
+      }
+    }
+    return new StoreCorruptedError(key, reason, corruptedPath, backup);
+  }
+
+  /**
+   * Applies the logged operations on top of the snapshot.
+   * Stops at the first invalid record and truncates the log there, so later appends start from a clean line.
+   */
+  private replay(key: string, data: MemoryVectorStoreData): MemoryVectorStoreData {
+    const path = logPath(key);
+    if (!existsSync(path)) return data;
+
+    const log = readFileSync(path);
+    const items = new Map<string, MemoryVectorDataSerialize>(
+      (Array.isArray(data) ? data : data.items).map((item) => [item[3] ?? item[0], item])
+    );
+    let offset = 0;
+    let applied = 0;
+    for (let end = log.indexOf(0x0a, offset); end !== -1; end = log.indexOf(0x0a, offset)) {
+      const operation = parseRecord(log.toString('utf8', offset, end));
+      if (!operation) break;
+
+      if (operation.op === 'set') items.set(operation.item[3] ?? operation.item[0], operation.item);
+      else if (operation.op === 'delete') items.delete(operation.id);
+      else items.clear();
+      offset = end + 1;
+      applied++;
+    }
+    if (offset < log.length) truncateSync(path, offset);
+    if (applied === 0) return data;
+
+    if (Array.isArray(data)) return Array.from(items.values());
+    // The persisted indexes describe the snapshot items only and are rebuilt instead
+    const snapshot = { ...data, items: Array.from(items.values()) };
+    delete snapshot.index;
+    delete snapshot.lexical;
+    return snapshot;
   }
 }
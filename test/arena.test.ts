@@ -0,0 +1,85 @@
+// test/arena.test.ts
+import { describe, it, expect } from 'vitest';
+import { memoryVectorStore } from '../src/core/node';
+import { MemoryVectorMetricName } from '../src/interface';
+import { VectorArena, arenaScorer } from '../src/shared/arena';
+import { compareScores, resolveMetric } from '../src/shared/metric';
+import { seededRandom } from '../src/shared/util';
+import { MemoryStorageProvider, pathCounter } from './helpers/memory-storage';
+
+const random = seededRandom(7);
+const texts = Array.from({ length: 200 }, (_, i) => `document ${i}`);
+const vectors = new Map(texts.map((text) => [text, Array.from({ length: 9 }, () => random() * 2 - 1)]));
+const vectorParser = (text: string) => vectors.get(text) ?? Array.from({ length: 9 }, (_, i) => Math.cos(i));
+
+// 경로마다 캐시가 공유되므로 테스트마다 새 경로를 사용
+const nextPath = pathCounter('arena');
+
+describe('VectorArena', () => {
+  it('should grow, reuse released slots and ignore a second release', () => {
+    const arena = new VectorArena(3);
+    const stored = Array.from({ length: 100 }, (_, i) => arena.allocate([i, 0, 0]));
+    expect(Array.from(arena.values(stored[99]))).toEqual([99, 0, 0]);
+    expect(arena.norms[stored[42].slot]).toBe(42);
+
+    arena.release(stored[10]);
+    const reused = arena.allocate([0, 3, 4]);
+    expect(reused.slot).toBe(stored[10].slot);
+    // 이미 반환한 벡터를 다시 반환해도 새 벡터의 슬롯은 유지
+    arena.release(stored[10]);
+    expect(arena.allocate([1, 1, 1]).slot).toBe(100);
+    expect(arena.size).toBe(101);
+
+    const score = arenaScorer(arena, resolveMetric('cosine'), [0, 6, 8])!;
+    expect(score(reused.slot)).toBeCloseTo(1);
+    // 사용자 정의 메트릭은 빠른 경로 없음
+    const custom = resolveMetric((a, b) => a[0] * b[0]);
+    expect(arenaScorer(arena, custom, [1, 0, 0])).toBeUndefined();
+  });
+});
+
+describe('Exact search on the arena', () => {
+  it.each<MemoryVectorMetricName>(['cosine', 'dot', 'euclidean', 'manhattan'])(
+    'should return the same results as scoring and sorting everything with %s',
+    async (metric) => {
+      const store = memoryVectorStore(vectorParser, {
+        storagePath: nextPath(),
+        storageProvider: new MemoryStorageProvider(),
+        metric,
+      });
+      await store.addMany(texts);
+
+      const resolved = resolveMetric(metric);
+      const query = vectorParser('query');
+      const expected = texts
+        .map((content) => ({
+          content,
+          score: resolved.score(query, Array.from(Float32Array.from(vectors.get(content)!))),
+        }))
+        .sort(compareScores(resolved))
+        .slice(5, 15);
+
+      const results = await store.similaritySearchByVector(query, { k: 10, offset: 5 });
+      expect(results.map(({ content }) => content)).toEqual(expected.map(({ content }) => content));
+      results.forEach(({ score }, i) => expect(score).toBeCloseTo(expected[i].score, 6));
+    }
+  );
+
+  it('should keep insertion order between equal scores and reuse slots of removed documents', async () => {
+    const store = memoryVectorStore((text: string) => (text.startsWith('same') ? [1, 1] : [1, -1]), {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+    });
+    await store.addMany(['same 0', 'other', 'same 1', 'same 2', 'same 3']);
+
+    const results = await store.similaritySearch('same', { k: 3 });
+    expect(results.map(({ content }) => content)).toEqual(['same 0', 'same 1', 'same 2']);
+
+    // 제거한 문서의 슬롯을 새 문서가 다시 사용해도 점수는 새 벡터 기준
+    await store.remove('same 0');
+    await store.add('another');
+    const [best] = await store.similaritySearch('other', { k: 1, filter: (doc) => doc.content !== 'other' });
+    expect(best.content).toBe('another');
+    expect(best.score).toBeCloseTo(1);
+  });
+});
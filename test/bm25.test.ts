@@ -0,0 +1,104 @@
+// test/bm25.test.ts
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { Bm25Index, defaultTokenizer } from '../src/search/bm25';
+import { memoryVectorStore } from '../src/core/node';
+
+describe('Bm25Index', () => {
+  it('should rank documents by term relevance', () => {
+    const index = new Bm25Index(defaultTokenizer, { k1: 1.2, b: 0.75 });
+    index.add('a', 'The quick brown fox');
+    index.add('b', 'The lazy dog sleeps all day, the dog is lazy');
+    index.add('c', 'A quick dog');
+
+    expect(index.search('lazy dog').map((item) => item.id)).toEqual(['b', 'c']);
+    expect(index.search('QUICK').map((item) => item.id)).toEqual(expect.arrayContaining(['a', 'c']));
+
+    index.remove('b');
+    expect(index.search('lazy')).toEqual([]);
+    expect(index.size).toBe(2);
+  });
+
+  it('should restore from a snapshot but not reuse the terms of a custom tokenizer', () => {
+    const index = new Bm25Index(defaultTokenizer, { k1: 1.2, b: 0.75 });
+    index.add('a', 'SKU 1 red');
+    index.add('b', 'SKU 2 blue');
+
+    const snapshot = JSON.parse(JSON.stringify(index.toJSON()));
+    const restored = Bm25Index.fromJSON(snapshot, defaultTokenizer, { k1: 1.2, b: 0.75 })!;
+    expect(restored.search('blue')).toEqual(index.search('blue'));
+    expect(restored.search('blue')[0].id).toBe('b');
+    // 다른 매개변수로 만든 스냅샷은 사용하지 않음
+    expect(Bm25Index.fromJSON(snapshot, defaultTokenizer, { k1: 2, b: 0.75 })).toBeUndefined();
+
+    // 사용자 정의 토크나이저의 용어는 어느 쪽에서도 재사용하지 않음
+    const tokenizer = (text: string) => text.split(' ');
+    const custom = new Bm25Index(tokenizer, { k1: 1.2, b: 0.75 });
+    custom.add('a', 'SKU-1 red');
+    expect(custom.search('SKU-1')[0].id).toBe('a');
+    expect(Bm25Index.fromJSON(snapshot, tokenizer, { k1: 1.2, b: 0.75 })).toBeUndefined();
+    expect(Bm25Index.fromJSON(custom.toJSON(), defaultTokenizer, { k1: 1.2, b: 0.75 })).toBeUndefined();
+  });
+});
+
+describe('hybridSearch', () => {
+  // 벡터 검색만으로는 제품 코드를 찾지 못하는 상황을 재현
+  const vectors: Record<string, number[]> = {
+    'SKU-4821 trail shoe': [0, 1],
+    'running shoe': [1, 0],
+    'hiking boot': [0.9, 0.1],
+    'SKU-4821': [1, 0.05],
+  };
+  const vectorParser = (text: string) => vectors[text] ?? [0.5, 0.5];
+
+  it('should find exact terms missed by vector search', async () => {
+    const storagePath = path.join(process.cwd(), 'test-hybrid-store.json');
+    const store = memoryVectorStore(vectorParser, { storagePath, lexical: true });
+    await store.addMany(['SKU-4821 trail shoe', 'running shoe', 'hiking boot']);
+
+    const dense = await store.similaritySearch('SKU-4821', 1);
+    expect(dense[0].content).toBe('running shoe');
+
+    const weighted = await store.hybridSearch('SKU-4821', { k: 2, alpha: 0.3 });
+    expect(weighted[0].content).toBe('SKU-4821 trail shoe');
+    expect(weighted[0].lexicalScore).toBeGreaterThan(0);
+
+    const rrf = await store.hybridSearch('SKU-4821 shoe', { k: 3, rrf: true });
+    expect(rrf[0].content).toBe('SKU-4821 trail shoe');
+
+    await store.save();
+    const raw = JSON.parse(fs.readFileSync(storagePath, 'utf8'));
+    fs.unlinkSync(storagePath);
+    expect(raw.lexical.documents.length).toBe(3);
+  });
+
+  it('should rebuild a saved index with other parameters or a custom tokenizer', async () => {
+    const storagePath = path.join(process.cwd(), 'test-hybrid-rebuild-store.json');
+    const store = memoryVectorStore(vectorParser, { storagePath, lexical: true });
+    await store.addMany(['SKU-4821 trail shoe', 'running shoe']);
+    await store.close();
+
+    // 저장된 인덱스의 k1과 다르면 문서로 다시 만듦
+    const tuned = memoryVectorStore(vectorParser, { storagePath, lexical: { k1: 2 } });
+    await tuned.add('hiking boot');
+    await tuned.close();
+    expect(JSON.parse(fs.readFileSync(storagePath, 'utf8')).lexical.k1).toBe(2);
+
+    // 사용자 정의 토크나이저는 저장된 용어 대신 직접 토큰화: 'SKU-4821'이 하나의 용어
+    const tokenizer = (text: string) => text.split(' ');
+    const custom = memoryVectorStore(vectorParser, { storagePath, lexical: { k1: 2, tokenizer } });
+    const [result] = await custom.hybridSearch('SKU-4821', { k: 1, alpha: 0 });
+    await custom.add('Red Shoe');
+    await custom.close();
+
+    // 사용자 정의 토크나이저로 저장한 인덱스도 기본 토크나이저에서는 다시 만듦
+    const plain = memoryVectorStore(vectorParser, { storagePath, lexical: { k1: 2 } });
+    const shoes = await plain.hybridSearch('shoe', { k: 5, alpha: 0 });
+    await plain.close();
+    fs.rmSync(storagePath, { force: true });
+    fs.rmSync(`${storagePath}.bak`, { force: true });
+    expect(result.lexicalScore).toBeGreaterThan(0);
+    expect(shoes.find(({ content }) => content === 'Red Shoe')?.lexicalScore).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,102 @@
+// test/collection.test.ts
+import { describe, it, expect } from 'vitest';
+import { documentId, memoryVectorStore } from '../src/core/node';
+import { MemoryVectorSnapshot } from '../src/interface';
+import { MemoryVectorStoreError } from '../src/shared/errors';
+import { MemoryStorageProvider, pathCounter } from './helpers/memory-storage';
+
+const vectorParser = (text: string) => [text.length, text.charCodeAt(0)];
+
+// 경로마다 캐시가 공유되므로 테스트마다 새 경로를 사용
+const nextPath = pathCounter('collection');
+
+describe('Collections', () => {
+  it('should isolate documents of each collection', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+    });
+    const alice = store.collection('alice');
+    const bob = store.collection('bob');
+
+    await store.add('shared');
+    await alice.add({ id: 'note', content: 'apple pie' });
+    await bob.add({ id: 'note', content: 'banana bread' });
+
+    expect(store.count()).toBe(1);
+    expect(alice.count()).toBe(1);
+    expect(alice.get('note')?.content).toBe('apple pie');
+    expect(bob.get('note')?.content).toBe('banana bread');
+    expect(bob.getAll().map(({ content }) => content)).toEqual(['banana bread']);
+
+    const results = await alice.similaritySearch('banana bread', 5);
+    expect(results.map(({ content }) => content)).toEqual(['apple pie']);
+    expect(results[0]).toMatchObject({ id: 'note', collection: 'alice' });
+
+    await alice.removeById('note');
+    expect(bob.has('note')).toBe(true);
+  });
+
+  it('should search across collections', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+    });
+    await store.add('root document');
+    await store.collection('a').add('apple');
+    await store.collection('b').add('banana');
+    await store.collection('c').add('cherry');
+
+    const some = await store.similaritySearch('apple', { collections: ['a', 'b'] });
+    expect(some.map(({ collection }) => collection).sort()).toEqual(['a', 'b']);
+
+    const all = await store.collection('a').similaritySearch('apple', { collections: '*' });
+    expect(all).toHaveLength(4);
+    expect(all.find(({ content }) => content === 'root document')?.collection).toBeUndefined();
+  });
+
+  it('should list, clear and drop collections', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+    });
+    await store.add('root document');
+    await store.collection('b').addMany(['banana', 'blueberry']);
+    await store.collection('a').add('apple');
+    expect(store.listCollections()).toEqual(['a', 'b']);
+
+    await store.dropCollection('b');
+    expect(store.listCollections()).toEqual(['a']);
+    expect(store.collection('b').count()).toBe(0);
+
+    // 기본 컬렉션을 비워도 다른 컬렉션은 유지
+    store.clear();
+    expect(store.count()).toBe(0);
+    expect(store.collection('a').count()).toBe(1);
+
+    expect(() => store.collection('')).toThrow(MemoryVectorStoreError);
+  });
+
+  it('should persist every collection in one file', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const storagePath = nextPath();
+    const store = memoryVectorStore(vectorParser, { storagePath, storageProvider });
+
+    await Promise.all([
+      store.add('root document'),
+      store.collection('alice').add('apple'),
+      store.collection('bob').add('banana'),
+    ]);
+    await store.collection('bob').save();
+    expect(storageProvider.data.size).toBe(1);
+    expect(storageProvider.saves).toBe(1);
+    expect((storageProvider.data.get(storagePath) as MemoryVectorSnapshot).items).toHaveLength(3);
+
+    // 새 경로로 복사해 다시 불러옴
+    storageProvider.data.set(`${storagePath}-copy`, storageProvider.data.get(storagePath)!);
+    const restored = memoryVectorStore(vectorParser, { storagePath: `${storagePath}-copy`, storageProvider });
+    expect(restored.listCollections()).toEqual(['alice', 'bob']);
+    expect(restored.collection('alice').getAll()).toMatchObject([{ id: documentId('apple'), content: 'apple' }]);
+    expect(restored.count()).toBe(1);
+  });
+});
@@ -3,7 +3,8 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { memoryVectorStore } from '../src/core/node';
 import fs from 'fs';
 import path from 'path';
-import { doc } from '../src/core/vector-store';
+import { doc, documentId } from '../src/core/vector-store';
+import { DocumentIdConflictError } from '../src/shared/errors';
 
 // 테스트용 임시 파일 경로
 const TEST_FILE_PATH = path.join(process.cwd(), 'test-vector-store.json');
@@ -21,6 +22,7 @@ describe('memoryVectorStore (Node)', () => {
     if (fs.existsSync(TEST_FILE_PATH)) {
       fs.unlinkSync(TEST_FILE_PATH);
     }
+    fs.rmSync(`${TEST_FILE_PATH}.bak`, { force: true });
   });
 
   // 각 테스트 이후에 실행
@@ -32,6 +34,7 @@ describe('memoryVectorStore (Node)', () => {
     if (fs.existsSync(TEST_FILE_PATH)) {
       fs.unlinkSync(TEST_FILE_PATH);
     }
+    fs.rmSync(`${TEST_FILE_PATH}.bak`, { force: true });
   });
 
   it('should create a vector store instance', () => {
@@ -50,7 +53,7 @@ describe('memoryVectorStore (Node)', () => {
 
     const result = await store.add('test data');
     expect(result).toEqual({
-      document: doc('test data'),
+      document: doc('test data', undefined, documentId('test data')),
       vector: [9, 116, 4.5], // 'test data'의 길이, 't'의 코드 포인트, 길이*0.5
     });
 
@@ -69,6 +72,7 @@ describe('memoryVectorStore (Node)', () => {
 
     expect(result).toEqual({
       document: {
+        id: documentId('test data with metadata'),
         content: 'test data with metadata',
         metadata: { category: 'test', priority: 1 },
       },
@@ -271,6 +275,7 @@ describe('memoryVectorStore (Node)', () => {
 
     expect(result).toEqual({
       document: {
+        id: documentId('test data with metadata'),
         content: 'test data with metadata',
         metadata: { category: 'test', priority: 1 },
       },
@@ -331,4 +336,204 @@ describe('memoryVectorStore (Node)', () => {
     expect(loadedItems[0].content).toBe('apple');
     expect(loadedItems[0].metadata).toEqual({ category: 'fruit', count: 5 });
   });
+
+  // 여러 문서를 한 번에 추가하고 실패한 항목을 보고하는지 확인
+  it('should add many documents and report failures', async () => {
+    const store = memoryVectorStore(
+      (text: string) => {
+        if (text === 'broken') throw new Error('embedding failed');
+        return mockVectorParser(text);
+      },
+      // 남은 차원이 다른 테스트에 영향을 주지 않도록 저장하지 않는 별도 경로 사용
+      { storagePath: `${TEST_FILE_PATH}.update`, autoSave: false }
+    );
+
+    const result = await store.addMany(['apple', doc('banana', { color: 'yellow' }), 'broken', 'orange'], {
+      concurrency: 2,
+    });
+
+    expect(result.added.map((item) => item.document.content)).toEqual(['apple', 'banana', 'orange']);
+    expect(result.failed.length).toBe(1);
+    expect(result.failed[0].index).toBe(2);
+    expect(result.failed[0].document.content).toBe('broken');
+    expect(store.count()).toBe(3);
+  });
+
+  // 배치 파서를 사용하는 경우 한 번의 호출로 여러 문서를 임베딩하는지 확인
+  it('should use the batch parser when provided', async () => {
+    const store = memoryVectorStore(mockVectorParser, { storagePath: TEST_FILE_PATH });
+    const calls: string[][] = [];
+
+    const result = await store.addMany(['apple', 'banana', 'orange'], {
+      batchSize: 2,
+      batchParser: (contents) => {
+        calls.push(contents);
+        return contents.map(mockVectorParser);
+      },
+    });
+
+    expect(calls).toEqual([['apple', 'banana'], ['orange']]);
+    expect(result.added.length).toBe(3);
+    expect(result.failed.length).toBe(0);
+    expect(result.added[1].vector).toEqual(mockVectorParser('banana'));
+  });
+
+  // 같은 내용이라도 id가 다르면 별도의 문서로 저장되는지 확인
+  it('should keep documents with the same content and different ids', async () => {
+    const store = memoryVectorStore(mockVectorParser, { storagePath: TEST_FILE_PATH });
+
+    await store.add(doc('apple', { source: 'a' }, 'doc-1'));
+    await store.add(doc('apple', { source: 'b' }, 'doc-2'));
+
+    expect(store.count()).toBe(2);
+    expect(store.has('doc-1')).toBe(true);
+    expect(store.get('doc-2')).toEqual({ id: 'doc-2', content: 'apple', metadata: { source: 'b' } });
+
+    await store.removeById('doc-1');
+    expect(store.has('doc-1')).toBe(false);
+    expect(store.count()).toBe(1);
+  });
+
+  // id를 유지한 채 내용과 메타데이터를 수정하는지 확인
+  it('should update a document while keeping its id', async () => {
+    const store = memoryVectorStore(mockVectorParser, { storagePath: TEST_FILE_PATH });
+
+    await store.add(doc('apple', { version: 1 }, 'doc-1'));
+    const updated = await store.update('doc-1', { content: 'banana' });
+
+    expect(updated?.vector).toEqual(mockVectorParser('banana'));
+    expect(store.get('doc-1')).toEqual({ id: 'doc-1', content: 'banana', metadata: { version: 1 } });
+    expect(await store.update('missing', { content: 'x' })).toBeUndefined();
+
+    await store.save();
+    const raw = JSON.parse(fs.readFileSync(TEST_FILE_PATH, 'utf8'));
+    expect(raw.items[0][3]).toBe('doc-1');
+  });
+
+  // 내용에서 만든 id를 가진 문서를 수정한 뒤 원래 내용을 다시 추가해도 덮어쓰지 않음
+  it('should not overwrite an updated document when its original text is added again', async () => {
+    const store = memoryVectorStore(mockVectorParser, { storagePath: TEST_FILE_PATH });
+
+    const { document } = await store.add('apple');
+    await store.update(document.id!, { content: 'banana split' });
+
+    await expect(store.add('apple')).rejects.toThrow(DocumentIdConflictError);
+    const { added, failed } = await store.addMany(['apple', 'cherry']);
+    expect(added.map(({ document }) => document.content)).toEqual(['cherry']);
+    expect(failed[0].error).toBeInstanceOf(DocumentIdConflictError);
+    expect(store.get(document.id!)?.content).toBe('banana split');
+
+    // 명시적인 id로는 같은 내용을 따로 추가할 수 있음
+    await store.add(doc('apple', {}, 'apple-2'));
+    expect(store.get('apple-2')?.content).toBe('apple');
+  });
+
+  // 임베딩하는 동안 삭제된 문서는 되살리지 않음
+  it('should not bring back a document removed while its new content is embedded', async () => {
+    let release!: () => void;
+    const embedding = new Promise<void>((resolve) => (release = resolve));
+    const store = memoryVectorStore(
+      async (text: string) => {
+        if (text === 'banana') await embedding;
+        return mockVectorParser(text);
+      },
+      // 남은 차원이 다른 테스트에 영향을 주지 않도록 저장하지 않는 별도 경로 사용
+      { storagePath: `${TEST_FILE_PATH}.update`, autoSave: false }
+    );
+
+    await store.add(doc('apple', {}, 'doc-1'));
+    const updating = store.update('doc-1', { content: 'banana' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await store.removeById('doc-1');
+    release();
+
+    expect(await updating).toBeUndefined();
+    expect(store.has('doc-1')).toBe(false);
+  });
+
+  // id가 없는 이전 형식의 파일도 로드되는지 확인
+  it('should load data saved without ids', async () => {
+    // 전역 캐시에 없는 새 경로를 사용
+    const legacyPath = path.join(process.cwd(), 'test-vector-store-legacy.json');
+    fs.writeFileSync(legacyPath, JSON.stringify([['apple', [5, 97, 2.5], { legacy: true }]]));
+
+    const store = memoryVectorStore(mockVectorParser, { storagePath: legacyPath });
+    fs.unlinkSync(legacyPath);
+
+    expect(store.get(documentId('apple'))).toEqual({
+      id: documentId('apple'),
+      content: 'apple',
+      metadata: { legacy: true },
+    });
+  });
+
+  // 옵션 객체로 최소 점수, 페이지 이동, 벡터 포함 여부를 지정할 수 있는지 확인
+  it('should search with minScore, offset and includeVectors options', async () => {
+    const store = memoryVectorStore(
+      (text: string) => ({ a: [1, 0], b: [1, 1], c: [0, 1], d: [-1, 0] })[text] ?? [1, 0],
+      {
+        storagePath: TEST_FILE_PATH,
+      }
+    );
+    await store.addMany(['a', 'b', 'c', 'd']);
+
+    const relevant = await store.similaritySearch('a', { minScore: 0.5 });
+    expect(relevant.map((item) => item.content)).toEqual(['a', 'b']);
+
+    const secondPage = await store.similaritySearch('a', { k: 2, offset: 2, includeVectors: true });
+    expect(secondPage.map((item) => item.content)).toEqual(['c', 'd']);
+    expect(secondPage[0].vector).toEqual([0, 1]);
+
+    const filtered = await store.similaritySearch('a', { filter: (item) => item.content !== 'a', k: 1 });
+    expect(filtered.map((item) => item.content)).toEqual(['b']);
+    expect(filtered[0].vector).toBeUndefined();
+  });
+
+  // MMR 검색이 비슷한 문서 대신 다양한 문서를 선택하는지 확인
+  it('should pick diverse results with maxMarginalRelevanceSearch', async () => {
+    const vectors: Record<string, number[]> = {
+      'shoes 1': [1, 0.01],
+      'shoes 2': [1, 0.02],
+      'shoes 3': [1, 0.03],
+      jacket: [0.6, 0.8],
+    };
+    let parserCalls = 0;
+    const store = memoryVectorStore(
+      (text: string) => {
+        parserCalls++;
+        return vectors[text] ?? [1, 0];
+      },
+      { storagePath: TEST_FILE_PATH }
+    );
+    await store.addMany(Object.keys(vectors));
+
+    const similar = await store.similaritySearch('shoes 1', 2);
+    expect(similar.map((item) => item.content)).toEqual(['shoes 1', 'shoes 2']);
+
+    parserCalls = 0;
+    const diverse = await store.maxMarginalRelevanceSearch('shoes 1', { k: 2, fetchK: 4, lambda: 0.3 });
+    expect(diverse.map((item) => item.content)).toEqual(['shoes 1', 'jacket']);
+    expect(diverse[1].score).toBeCloseTo(0.61, 2);
+    // 저장된 문서의 벡터를 재사용하므로 파서를 호출하지 않음
+    expect(parserCalls).toBe(0);
+  });
+
+  // 벡터로 직접 검색하거나 저장된 문서와 유사한 문서를 찾을 수 있는지 확인
+  it('should search by vector and find documents similar to a stored one', async () => {
+    const store = memoryVectorStore(mockVectorParser, { storagePath: TEST_FILE_PATH });
+    await store.add(doc('apple', { kind: 'fruit' }, 'apple-id'));
+    await store.addMany(['apricot', 'banana', 'zucchini']);
+
+    const byVector = await store.similaritySearchByVector(mockVectorParser('banana'), { k: 1 });
+    expect(byVector[0].content).toBe('banana');
+
+    const byId = await store.findSimilarTo('apple-id', { k: 2 });
+    expect(byId.map((item) => item.content)).not.toContain('apple');
+    expect(byId.length).toBe(2);
+
+    const byContent = await store.findSimilarTo('banana', { filter: (item) => item.content !== 'zucchini' });
+    expect(byContent.map((item) => item.content).sort()).toEqual(['apple', 'apricot']);
+
+    expect(await store.findSimilarTo('missing')).toEqual([]);
+  });
 });
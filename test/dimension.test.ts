@@ -0,0 +1,109 @@
+// test/dimension.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { memoryVectorStore } from '../src/core/node';
+import { MemoryVectorSnapshot } from '../src/interface';
+import { DimensionMismatchError, InvalidVectorError, ModelMismatchError } from '../src/shared/errors';
+import { MemoryStorageProvider, pathCounter } from './helpers/memory-storage';
+
+const vectors: Record<string, number[]> = {
+  apple: [1, 0],
+  banana: [0, 1],
+  long: [1, 0, 0],
+  broken: [1, NaN],
+  endless: [Infinity, 0],
+};
+
+const vectorParser = (text: string) => vectors[text] ?? [0.5, 0.5];
+
+// 경로마다 캐시가 공유되므로 테스트마다 새 경로를 사용
+const nextPath = pathCounter('dimension');
+
+describe('Vector dimension', () => {
+  it('should reject vectors of another dimension or with values that are not finite', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+      autoSave: false,
+    });
+
+    await store.add('apple');
+    await expect(store.add('long')).rejects.toThrow(DimensionMismatchError);
+    await expect(store.add('broken')).rejects.toThrow(InvalidVectorError);
+    await expect(store.similaritySearchByVector([1, 0, 0])).rejects.toThrow(DimensionMismatchError);
+    await expect(store.similaritySearch('endless')).rejects.toThrow(InvalidVectorError);
+
+    // 여러 문서를 추가할 때는 실패한 문서만 건너뜀
+    const { added, failed } = await store.addMany(['banana', 'long']);
+    expect(added.map(({ document }) => document.content)).toEqual(['banana']);
+    expect(failed[0].error).toBeInstanceOf(DimensionMismatchError);
+    expect(store.count()).toBe(2);
+  });
+
+  it('should save the dimension and model and check them when loading', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const storagePath = nextPath();
+    const store = memoryVectorStore(vectorParser, { storagePath, storageProvider, modelId: 'fruit-v1' });
+    await store.add('apple');
+    await store.close();
+
+    const saved = storageProvider.data.get(storagePath) as MemoryVectorSnapshot;
+    expect(saved).toMatchObject({ dimension: 2, modelId: 'fruit-v1' });
+    expect(() => memoryVectorStore(vectorParser, { storagePath, storageProvider, dimension: 3 })).toThrow(
+      DimensionMismatchError
+    );
+
+    // 모델이 바뀌면 데이터는 그대로 불러오고 오류만 알림
+    const onError = vi.fn();
+    const reopened = memoryVectorStore(vectorParser, { storagePath, storageProvider, modelId: 'fruit-v2', onError });
+    expect(reopened.count()).toBe(1);
+    expect(onError).toHaveBeenCalledWith(expect.any(ModelMismatchError));
+    await reopened.close();
+  });
+
+  it('should embed every document again with the new model', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const storagePath = nextPath();
+    const store = memoryVectorStore(vectorParser, { storagePath, storageProvider, modelId: 'fruit-v1' });
+    await store.addMany(['apple', 'banana']);
+    await store.close();
+
+    // 새 모델은 차원도 다름
+    const upgraded = memoryVectorStore((text: string) => [text.length, 1, 0], {
+      storagePath,
+      storageProvider,
+      modelId: 'fruit-v2',
+      onError: () => {},
+    });
+    await expect(upgraded.add('cherry')).rejects.toThrow(DimensionMismatchError);
+
+    const onProgress = vi.fn();
+    expect(await upgraded.reembedAll({ concurrency: 1, onProgress })).toBe(2);
+    expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+    await upgraded.add('cherry');
+    await upgraded.close();
+
+    const saved = storageProvider.data.get(storagePath) as MemoryVectorSnapshot;
+    expect(saved).toMatchObject({ dimension: 3, modelId: 'fruit-v2' });
+    expect(saved.items.map(([, vector]) => vector)).toEqual([
+      [5, 1, 0],
+      [6, 1, 0],
+      [6, 1, 0],
+    ]);
+  });
+
+  it('should keep the old vectors when a document fails to embed again', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const storagePath = nextPath();
+    const store = memoryVectorStore(vectorParser, { storagePath, storageProvider, autoSave: false });
+    await store.addMany(['apple', 'banana']);
+
+    await expect(
+      store.reembedAll({ batchParser: (contents) => contents.map((content) => (content === 'apple' ? [1] : [1, 2])) })
+    ).rejects.toThrow(DimensionMismatchError);
+    await store.save();
+    expect((storageProvider.data.get(storagePath) as MemoryVectorSnapshot).items.map(([, vector]) => vector)).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+  });
+});
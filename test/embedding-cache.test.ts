@@ -0,0 +1,83 @@
+// test/embedding-cache.test.ts
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { cachedVectorParser } from '../src/core/embedding-cache';
+import { NodeStorageProvider } from '../src/storage/node-file-storage';
+
+const createParser = () => {
+  const calls: string[] = [];
+  const parser = async (text: string) => {
+    calls.push(text);
+    return [text.length, 1];
+  };
+  return { calls, parser };
+};
+
+describe('cachedVectorParser', () => {
+  it('should embed each content only once and report stats', async () => {
+    const { calls, parser } = createParser();
+    const cached = cachedVectorParser(parser, { modelId: 'test-model' });
+
+    expect(await cached('hello')).toEqual([5, 1]);
+    expect(await cached('hello')).toEqual([5, 1]);
+    // 동시에 들어온 같은 요청은 한 번만 호출
+    await Promise.all([cached('world'), cached('world')]);
+
+    expect(calls).toEqual(['hello', 'world']);
+    expect(cached.stats()).toMatchObject({ hits: 2, misses: 2, size: 2 });
+  });
+
+  it('should hand out copies that callers can change without changing the cache', async () => {
+    const { parser } = createParser();
+    const cached = cachedVectorParser(parser, { modelId: 'test-model' });
+
+    const [first, concurrent] = await Promise.all([cached('hello'), cached('hello')]);
+    first[0] = 99;
+    concurrent[0] = 98;
+    (await cached('hello'))[1] = 97;
+
+    expect(await cached('hello')).toEqual([5, 1]);
+  });
+
+  it('should evict the least recently used entries', async () => {
+    const { calls, parser } = createParser();
+    const cached = cachedVectorParser(parser, { modelId: 'test-model', maxEntries: 2 });
+
+    await cached('a');
+    await cached('b');
+    await cached('a');
+    await cached('c'); // 'b'가 제거됨
+    await cached('a');
+    await cached('b');
+
+    expect(calls).toEqual(['a', 'b', 'c', 'b']);
+    expect(cached.stats().size).toBe(2);
+  });
+
+  it('should persist vectors per model through a storage provider', async () => {
+    const storageKey = path.join(process.cwd(), 'test-embedding-cache.json');
+    const storage = new NodeStorageProvider();
+
+    const first = cachedVectorParser(createParser().parser, {
+      modelId: 'model-a',
+      storage,
+      storageKey,
+      autoSave: false,
+    });
+    await first('hello');
+    await first.save();
+
+    const { calls, parser } = createParser();
+    const sameModel = cachedVectorParser(parser, { modelId: 'model-a', storage, storageKey, autoSave: false });
+    const otherModel = cachedVectorParser(parser, { modelId: 'model-b', storage, storageKey, autoSave: false });
+    await Promise.all([sameModel.ready(), otherModel.ready()]);
+    fs.unlinkSync(storageKey);
+
+    await sameModel('hello');
+    await otherModel('hello');
+
+    expect(calls).toEqual(['hello']);
+    expect(sameModel.stats().hits).toBe(1);
+  });
+});
@@ -0,0 +1,129 @@
+// test/events.test.ts
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { memoryVectorStore } from '../src/core/node';
+import { MemoryStorageProvider, pathCounter } from './helpers/memory-storage';
+
+const vectorParser = (text: string) => [text.length, text.charCodeAt(0)];
+
+// 경로마다 캐시가 공유되므로 테스트마다 새 경로를 사용
+const nextPath = pathCounter('events');
+
+describe('Store events', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should emit add, remove and clear events with the affected documents', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+      autoSave: false,
+    });
+    const events: Array<[string, unknown]> = [];
+    store.on('add', (payload) => events.push(['add', payload]));
+    store.on('remove', (payload) => events.push(['remove', payload]));
+    store.on('clear', (payload) => events.push(['clear', payload]));
+
+    await store.addMany([{ id: 'a', content: 'apple' }, 'banana']);
+    await store.collection('notes').add({ id: 'n', content: 'note' });
+    await store.removeById('a');
+    await store.update(store.getAll()[0].id!, { metadata: { ripe: true } });
+    await store.dropCollection('notes');
+
+    expect(events).toEqual([
+      ['add', { documents: [expect.objectContaining({ id: 'a' }), expect.objectContaining({ content: 'banana' })] }],
+      ['add', { documents: [expect.objectContaining({ id: 'n' })], collection: 'notes' }],
+      ['remove', { documents: [expect.objectContaining({ id: 'a', content: 'apple' })] }],
+      ['add', { documents: [expect.objectContaining({ content: 'banana', metadata: { ripe: true } })] }],
+      ['clear', { collection: 'notes' }],
+    ]);
+  });
+
+  it('should stop calling a listener once removed', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+      autoSave: false,
+    });
+    const listener = vi.fn();
+    const unsubscribe = store.on('add', listener);
+
+    await store.add('apple');
+    unsubscribe();
+    await store.add('banana');
+    store.on('add', listener);
+    store.off('add', listener);
+    await store.add('cherry');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit load and save events', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const storagePath = nextPath();
+    const first = memoryVectorStore(vectorParser, { storagePath, storageProvider, autoSave: false });
+    const onSave = vi.fn();
+    first.on('save', onSave);
+    await first.addMany(['apple', 'banana']);
+    await first.save();
+    expect(onSave).toHaveBeenCalledWith({ count: 2, size: expect.any(Number), appended: false });
+
+    // 동기 프로바이더는 생성 중에 불러오지만 직후에 등록한 리스너도 이벤트를 받음
+    storageProvider.data.set(`${storagePath}-copy`, storageProvider.data.get(storagePath)!);
+    const second = memoryVectorStore(vectorParser, { storagePath: `${storagePath}-copy`, storageProvider });
+    const onLoad = vi.fn();
+    second.on('load', onLoad);
+    await second.ready();
+    await Promise.resolve();
+    expect(onLoad).toHaveBeenCalledWith({ count: 2, reload: false });
+
+    await second.reload();
+    expect(onLoad).toHaveBeenLastCalledWith({ count: 2, reload: true });
+  });
+
+  it('should emit evict events for dropped and expired documents', async () => {
+    let now = 1_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+      autoSave: false,
+      maxDocuments: 2,
+    });
+    const onEvict = vi.fn();
+    store.on('evict', onEvict);
+
+    await store.add('apple', { ttlMs: 100 });
+    now++;
+    await store.add('banana');
+    now++;
+    await store.add('cherry');
+    expect(onEvict).toHaveBeenLastCalledWith({
+      documents: [expect.objectContaining({ content: 'apple' })],
+      reason: 'fifo',
+    });
+
+    await store.add('dragonfruit', { ttlMs: 10 });
+    now += 10;
+    expect(store.count()).toBe(1);
+    expect(onEvict).toHaveBeenLastCalledWith({
+      documents: [expect.objectContaining({ content: 'dragonfruit' })],
+      reason: 'expired',
+    });
+  });
+
+  it('should pass save errors to error listeners instead of the console', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const store = memoryVectorStore(vectorParser, { storagePath: nextPath(), storageProvider, autoSave: false });
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onError = vi.fn();
+    store.on('error', onError);
+
+    storageProvider.failing = true;
+    await store.add('apple');
+    await expect(store.save()).rejects.toThrow('Disk full');
+
+    expect(onError).toHaveBeenCalledWith({ error: new Error('Disk full'), operation: 'save' });
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+// test/eviction.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { memoryVectorStore } from '../src/core/node';
+import { MemoryDocument, MemoryVectorSnapshot } from '../src/interface';
+import { StoreFullError } from '../src/shared/errors';
+import { VectorStore } from '../src/core/vector-store';
+import { MemoryStorageProvider, pathCounter } from './helpers/memory-storage';
+
+const vectorParser = (text: string) => [text.length, text.charCodeAt(0)];
+
+// 경로마다 캐시가 공유되므로 테스트마다 새 경로를 사용
+const nextPath = pathCounter('eviction');
+
+const contents = (documents: MemoryDocument[]) => documents.map(({ content }) => content);
+
+describe('Eviction policies', () => {
+  beforeEach(() => {
+    // 같은 밀리초에 추가된 문서도 순서가 구분되도록 시계를 1씩 증가
+    let now = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => ++now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should evict the oldest documents past maxDocuments by default', async () => {
+    const evicted: string[] = [];
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+      maxDocuments: 2,
+      onEvict: (documents) => evicted.push(...contents(documents)),
+    });
+
+    await store.addMany(['apple', 'banana']);
+    await store.similaritySearch('apple', 1);
+    await store.add('cherry');
+
+    expect(contents(store.getAll())).toEqual(['banana', 'cherry']);
+    expect(evicted).toEqual(['apple']);
+  });
+
+  it('should evict the least recently used documents', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+      maxDocuments: 2,
+      eviction: 'lru',
+    });
+
+    await store.addMany(['apple', 'banana']);
+    await store.similaritySearch('apple', 1);
+    await store.add('cherry');
+
+    expect(contents(store.getAll())).toEqual(['apple', 'cherry']);
+  });
+
+  it('should evict the least frequently used documents', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+      maxDocuments: 3,
+      eviction: 'lfu',
+    });
+
+    await store.addMany(['apple', 'banana', 'cherry']);
+    await store.similaritySearch('apple', 1);
+    await store.similaritySearch('apple', 1);
+    await store.similaritySearch('cherry', 1);
+    // 방금 추가한 문서는 조회 수가 0이어도 남겨둠
+    await store.add('dragonfruit');
+
+    expect(contents(store.getAll())).toEqual(['apple', 'cherry', 'dragonfruit']);
+  });
+
+  it('should reject documents past maxDocuments with the none policy', async () => {
+    const onEvict = vi.fn();
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+      maxDocuments: 2,
+      eviction: 'none',
+      onEvict,
+    });
+
+    const { failed } = await store.addMany(['apple', 'banana', 'cherry']);
+    expect(failed.map(({ index }) => index)).toEqual([2]);
+    expect(failed[0].error).toBeInstanceOf(StoreFullError);
+
+    await expect(store.add('dragonfruit')).rejects.toThrow(StoreFullError);
+    // 이미 있는 문서는 교체 가능
+    await store.add('apple');
+    expect(store.count()).toBe(2);
+    expect(onEvict).not.toHaveBeenCalled();
+  });
+
+  it('should evict by policy when the saved data exceeds maxFileSizeMB', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const storagePath = nextPath();
+    const evicted: string[] = [];
+    // 팩토리는 maxFileSizeMB를 1MB 이상으로 제한하므로 직접 생성
+    const store = new VectorStore(vectorParser, storageProvider, {
+      storagePath,
+      autoSave: false,
+      debug: false,
+      eviction: 'lru',
+      // 약 400바이트
+      maxFileSizeMB: 400 / (1024 * 1024),
+      onEvict: (documents) => evicted.push(...contents(documents)),
+    });
+
+    await store.addMany(Array.from({ length: 10 }, (_, i) => `document ${i}`));
+    await store.similaritySearch('document 0', 1);
+    await store.save();
+
+    const saved = storageProvider.data.get(storagePath) as MemoryVectorSnapshot;
+    expect(JSON.stringify(saved).length).toBeLessThanOrEqual(400);
+    expect(saved.items.length).toBeGreaterThan(0);
+    expect(saved.items.length + evicted.length).toBe(10);
+    expect(evicted).not.toContain('document 0');
+    expect(store.count()).toBe(saved.items.length);
+  });
+
+  it('should report a StoreFullError instead of trimming with the none policy', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const onError = vi.fn();
+    const store = new VectorStore(vectorParser, storageProvider, {
+      storagePath: nextPath(),
+      autoSave: false,
+      debug: false,
+      eviction: 'none',
+      maxFileSizeMB: 100 / (1024 * 1024),
+      onError,
+    });
+
+    await store.addMany(['apple', 'banana', 'cherry']);
+    await expect(store.save()).rejects.toThrow(StoreFullError);
+
+    expect(onError).toHaveBeenCalledWith(expect.any(StoreFullError));
+    expect(storageProvider.data.size).toBe(0);
+    expect(store.count()).toBe(3);
+  });
+
+  it('should persist access statistics with the documents', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const storagePath = nextPath();
+    const store = memoryVectorStore(vectorParser, { storagePath, storageProvider, autoSave: false });
+
+    await store.addMany(['apple', 'banana']);
+    await store.similaritySearch('apple', 1);
+    await store.similaritySearch('apple', 1);
+    await store.save();
+
+    const saved = storageProvider.data.get(storagePath) as MemoryVectorSnapshot;
+    const apple = saved.items.find(([content]) => content === 'apple')!;
+    const banana = saved.items.find(([content]) => content === 'banana')!;
+    expect(apple[4]).toMatchObject({ hits: 2 });
+    expect(apple[4]!.accessedAt).toBeGreaterThan(apple[4]!.createdAt);
+    expect(banana[4]).toMatchObject({ hits: 0 });
+
+    // 다시 추가해도 통계는 유지
+    await store.add({ content: 'apple', metadata: { color: 'red' } });
+    await store.save();
+    const updated = storageProvider.data.get(storagePath) as MemoryVectorSnapshot;
+    expect(updated.items.find(([content]) => content === 'apple')![4]).toEqual(apple[4]);
+  });
+});
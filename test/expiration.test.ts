@@ -0,0 +1,99 @@
+// test/expiration.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { memoryVectorStore } from '../src/core/node';
+import { MemoryVectorSnapshot } from '../src/interface';
+import { MemoryStorageProvider, pathCounter } from './helpers/memory-storage';
+
+const vectorParser = (text: string) => [text.length, text.charCodeAt(0)];
+
+// 경로마다 캐시가 공유되므로 테스트마다 새 경로를 사용
+const nextPath = pathCounter('expiration');
+
+describe('Document expiration', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should hide and purge documents once their ttl has passed', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+    });
+
+    await store.add('apple', { ttlMs: 1000 });
+    await store.add({ content: 'banana' }, { expiresAt: now + 5000 });
+    await store.add('cherry');
+    expect(store.count()).toBe(3);
+
+    now += 1000;
+    expect(store.count()).toBe(2);
+    expect(store.getAll().map(({ content }) => content)).toEqual(['banana', 'cherry']);
+    const results = await store.similaritySearch('apple', 3);
+    expect(results.map(({ content }) => content)).not.toContain('apple');
+
+    now += 4000;
+    expect(store.purgeExpired()).toBe(1);
+    expect(store.getAll().map(({ content }) => content)).toEqual(['cherry']);
+  });
+
+  it('should apply the default ttl unless overridden', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+      defaultTtlMs: 1000,
+    });
+
+    await store.addMany(['apple', 'banana']);
+    await store.add('cherry', { ttlMs: 10_000 });
+
+    now += 1000;
+    expect(store.getAll().map(({ content }) => content)).toEqual(['cherry']);
+  });
+
+  it('should keep the expiry on update and refresh it when added again', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+    });
+
+    const { document } = await store.add('apple', { ttlMs: 1000 });
+    await store.update(document.id!, { metadata: { color: 'red' } });
+    now += 500;
+    await store.add('apple', { ttlMs: 1000 });
+
+    now += 600;
+    expect(store.has(document.id!)).toBe(true);
+    now += 400;
+    expect(store.has(document.id!)).toBe(false);
+  });
+
+  it('should persist expiry timestamps across restarts', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const storagePath = nextPath();
+    const store = memoryVectorStore(vectorParser, { storagePath, storageProvider, autoSave: false });
+
+    await store.add('apple', { ttlMs: 1000 });
+    await store.add('banana');
+    await store.save();
+    const saved = storageProvider.data.get(storagePath) as MemoryVectorSnapshot;
+    expect(saved.items.find(([content]) => content === 'apple')![4]!.expiresAt).toBe(now + 1000);
+
+    // 새 경로로 복사해 다시 불러옴
+    storageProvider.data.set(`${storagePath}-copy`, saved);
+    now += 1000;
+    const restored = memoryVectorStore(vectorParser, { storagePath: `${storagePath}-copy`, storageProvider });
+    expect(restored.getAll().map(({ content }) => content)).toEqual(['banana']);
+
+    // 만료된 문서는 다음 저장에서 제외됨
+    await restored.save();
+    const resaved = storageProvider.data.get(`${storagePath}-copy`) as MemoryVectorSnapshot;
+    expect(resaved.items.map(([content]) => content)).toEqual(['banana']);
+  });
+});
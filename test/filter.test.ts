@@ -0,0 +1,97 @@
+// test/filter.test.ts
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { matchesFilter } from '../src/shared/filter';
+import { InvalidFilterError } from '../src/shared/errors';
+import { memoryVectorStore } from '../src/core/node';
+import { MemoryMetadataFilter } from '../src/interface';
+import { doc } from '../src/core/vector-store';
+
+const TEST_FILE_PATH = path.join(process.cwd(), 'test-filter-store.json');
+
+type Product = {
+  brand: string;
+  price: number;
+  tags?: string[];
+  discontinued?: boolean;
+  vendor?: { name: string; country: string };
+};
+
+const shoes: Product = {
+  brand: 'Nike',
+  price: 120,
+  tags: ['running', 'outdoor'],
+  vendor: { name: 'Nike Inc', country: 'US' },
+};
+
+describe('matchesFilter', () => {
+  it('should match equality and comparison operators', () => {
+    expect(matchesFilter(shoes, { brand: 'Nike' })).toBe(true);
+    expect(matchesFilter(shoes, { brand: { $ne: 'Nike' } })).toBe(false);
+    expect(matchesFilter(shoes, { price: { $gt: 100, $lte: 120 } })).toBe(true);
+    expect(matchesFilter(shoes, { price: { $lt: 100 } })).toBe(false);
+    expect(matchesFilter(shoes, { brand: { $in: ['Adidas', 'Nike'] } })).toBe(true);
+    expect(matchesFilter(shoes, { brand: { $nin: ['Adidas', 'Nike'] } })).toBe(false);
+  });
+
+  it('should match nested paths, arrays and $exists', () => {
+    expect(matchesFilter(shoes, { 'vendor.country': 'US' })).toBe(true);
+    expect(matchesFilter(shoes, { tags: 'running' })).toBe(true);
+    expect(matchesFilter(shoes, { tags: { $in: ['indoor'] } })).toBe(false);
+    expect(matchesFilter(shoes, { discontinued: { $exists: false } })).toBe(true);
+    expect(matchesFilter(shoes, { vendor: { $exists: true } })).toBe(true);
+  });
+
+  it('should combine conditions with $and, $or and $not', () => {
+    const filter: MemoryMetadataFilter<Product> = {
+      $or: [{ brand: 'Adidas' }, { $and: [{ brand: 'Nike' }, { price: { $gte: 100 } }] }],
+      $not: { discontinued: true },
+    };
+    expect(matchesFilter(shoes, filter)).toBe(true);
+    expect(matchesFilter({ ...shoes, discontinued: true }, filter)).toBe(false);
+  });
+
+  it('should reject unknown operators', () => {
+    expect(() => matchesFilter(shoes, { price: { $near: 1 } } as any)).toThrow('Unknown filter operator: $near');
+    expect(() => matchesFilter(shoes, { price: { $in: 1 } } as any)).toThrow(InvalidFilterError);
+    expect(() => matchesFilter(shoes, { $and: { brand: 'Nike' } } as any)).toThrow(InvalidFilterError);
+    expect(() => matchesFilter(shoes, { $or: 'Nike' } as any)).toThrow(InvalidFilterError);
+    expect(() => matchesFilter(shoes, { $not: 1 } as any)).toThrow(InvalidFilterError);
+  });
+
+  it('should type-check filters against the metadata type', () => {
+    const valid: MemoryMetadataFilter<Product> = { 'vendor.name': { $eq: 'Nike Inc' }, price: { $gte: 10 } };
+    // @ts-expect-error unknown field
+    const unknownField: MemoryMetadataFilter<Product> = { color: 'red' };
+    // @ts-expect-error wrong value type
+    const wrongType: MemoryMetadataFilter<Product> = { price: { $gt: 'cheap' } };
+    expect([valid, unknownField, wrongType].length).toBe(3);
+  });
+});
+
+describe('similaritySearch with metadata filter', () => {
+  afterEach(async () => {
+    const store = memoryVectorStore(() => [], { storagePath: TEST_FILE_PATH });
+    store.clear();
+    await store.save();
+    if (fs.existsSync(TEST_FILE_PATH)) {
+      fs.unlinkSync(TEST_FILE_PATH);
+    }
+    fs.rmSync(`${TEST_FILE_PATH}.bak`, { force: true });
+  });
+
+  it('should accept a filter object in place of a predicate', async () => {
+    const store = memoryVectorStore<Product>((text) => [text.length, text.charCodeAt(0), 1], {
+      storagePath: TEST_FILE_PATH,
+    });
+
+    await store.add(doc('Nike Running Shoes', { brand: 'Nike', price: 120 }));
+    await store.add(doc('Nike Sports Bag', { brand: 'Nike', price: 40 }));
+    await store.add(doc('Adidas Leggings', { brand: 'Adidas', price: 60 }));
+
+    const results = await store.similaritySearch('shoes', 10, { brand: 'Nike', price: { $lt: 100 } });
+
+    expect(results.map((item) => item.content)).toEqual(['Nike Sports Bag']);
+  });
+});
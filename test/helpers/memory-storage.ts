@@ -0,0 +1,30 @@
+// test/helpers/memory-storage.ts
+import { MemoryVectorStorageProvider, MemoryVectorStoreData } from '../../src/interface';
+
+// 파일 없이 저장된 데이터를 확인할 수 있는 메모리 프로바이더
+export class MemoryStorageProvider implements MemoryVectorStorageProvider {
+  data = new Map<string, MemoryVectorStoreData>();
+  saves = 0;
+  // true면 저장 실패를 재현
+  failing = false;
+
+  save(key: string, data: MemoryVectorStoreData): void {
+    if (this.failing) throw new Error('Disk full');
+    this.saves++;
+    this.data.set(key, JSON.parse(JSON.stringify(data)));
+  }
+
+  load(key: string): MemoryVectorStoreData {
+    return this.data.get(key) ?? [];
+  }
+
+  exists(key: string): boolean {
+    return this.data.has(key);
+  }
+}
+
+// 경로마다 캐시가 공유되므로 테스트마다 새 경로를 만드는 함수
+export const pathCounter = (prefix: string): (() => string) => {
+  let counter = 0;
+  return () => `${prefix}-${counter++}`;
+};
@@ -0,0 +1,116 @@
+// test/hnsw.test.ts
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { HnswIndex } from '../src/search/hnsw';
+import { euclideanDistance, resolveMetric } from '../src/shared/metric';
+import { ArenaVector, VectorArena } from '../src/shared/arena';
+import { AnyVector, dequantize, toDistance } from '../src/shared/quantization';
+import { seededRandom } from '../src/shared/util';
+import { memoryVectorStore } from '../src/core/node';
+import { doc } from '../src/core/vector-store';
+
+const random = seededRandom(7);
+const randomVector = (dimension: number) => Array.from({ length: dimension }, () => random() * 2 - 1);
+
+const bruteForce = (vectors: number[][], query: number[], k: number) =>
+  vectors
+    .map((vector, index) => ({ id: String(index), distance: euclideanDistance(query, vector) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k)
+    .map((item) => item.id);
+
+describe('HnswIndex', () => {
+  const vectors = Array.from({ length: 1000 }, () => randomVector(16));
+  const options = { M: 12, efConstruction: 100, efSearch: 64 };
+
+  it('should find nearly the same neighbors as an exact search', () => {
+    const index = new HnswIndex(euclideanDistance, options);
+    vectors.forEach((vector, i) => index.add(String(i), vector));
+
+    let hits = 0;
+    for (let i = 0; i < 20; i++) {
+      const query = randomVector(16);
+      const expected = new Set(bruteForce(vectors, query, 10));
+      hits += index.search(query, 10).filter((item) => expected.has(item.id)).length;
+    }
+
+    // 근사 검색이므로 재현율 90% 이상이면 통과
+    expect(hits / 200).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('should not return removed nodes and restore from a snapshot', () => {
+    const index = new HnswIndex(euclideanDistance, options);
+    vectors.slice(0, 200).forEach((vector, i) => index.add(String(i), vector));
+
+    index.remove('0');
+    expect(index.search(vectors[0], 5).map((item) => item.id)).not.toContain('0');
+
+    const items = vectors.slice(1, 200).map((vector, i) => ({ id: String(i + 1), vector }));
+    const restored = HnswIndex.fromJSON(index.toJSON(items.map((item) => item.id)), items, euclideanDistance, options);
+
+    expect(restored?.size).toBe(199);
+    expect(restored?.search(vectors[42], 1)[0].id).toBe('42');
+    // 옵션이 다르면 복원하지 않고 다시 생성하도록 undefined 반환
+    expect(HnswIndex.fromJSON(index.toJSON([]), [], euclideanDistance, { ...options, M: 4 })).toBeUndefined();
+  });
+
+  it('should route through a copy of removed vectors whose arena slot is reused', () => {
+    const arena = new VectorArena(16);
+    const stored = vectors.slice(0, 200).map((vector) => arena.allocate(vector));
+    const distance = toDistance(resolveMetric('euclidean'));
+    const seen = new Set<AnyVector>();
+    const index = new HnswIndex<AnyVector>(
+      (a, b) => {
+        seen.add(a).add(b);
+        return distance(a, b);
+      },
+      options,
+      (vector) => ('arena' in vector ? dequantize(vector) : vector)
+    );
+    stored.forEach((vector, i) => index.add(String(i), vector));
+
+    // 제거한 문서의 슬롯을 다른 벡터가 다시 사용
+    const removed: ArenaVector[] = [];
+    for (let i = 0; i < 50; i++) {
+      index.remove(String(i));
+      arena.release(stored[i]);
+      removed.push(stored[i]);
+      arena.allocate(randomVector(16));
+    }
+
+    seen.clear();
+    for (let i = 0; i < 20; i++) index.search(randomVector(16), 10);
+    expect(removed.some((vector) => seen.has(vector))).toBe(false);
+  });
+});
+
+describe('memoryVectorStore with HNSW index', () => {
+  it('should search through the index and persist it', async () => {
+    const storagePath = path.join(process.cwd(), 'test-hnsw-store.json');
+    const store = memoryVectorStore((text) => randomVector(8).map((v) => v + text.length), {
+      storagePath,
+      // 그래프가 비교할 문서 수(efSearch * 2M)보다 문서가 많아야 인덱스를 사용
+      index: { type: 'hnsw', M: 8, efConstruction: 64, efSearch: 16 },
+    });
+
+    await store.addMany(Array.from({ length: 300 }, (_, i) => doc(`document ${i}`, { even: i % 2 === 0 })));
+    await store.removeById(store.getAll()[0].id!);
+
+    const results = await store.similaritySearch('document 10', 5);
+    expect(results.length).toBe(5);
+    expect(results[0].content).toBe('document 10');
+
+    // 선택도가 낮은 필터는 정확한 검색으로 처리
+    const filtered = await store.similaritySearch('document 10', 50, { even: true });
+    expect(filtered.length).toBe(50);
+    expect(filtered.every((item) => item.metadata?.even)).toBe(true);
+
+    await store.save();
+    const raw = JSON.parse(fs.readFileSync(storagePath, 'utf8'));
+    fs.unlinkSync(storagePath);
+
+    expect(raw.index.type).toBe('hnsw');
+    expect(raw.index.levels.length).toBe(299);
+  });
+});
@@ -0,0 +1,95 @@
+// test/lifecycle.test.ts
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { memoryVectorStore } from '../src/core/node';
+import { MemoryVectorSnapshot } from '../src/interface';
+import { StoreClosedError } from '../src/shared/errors';
+import { MemoryStorageProvider, pathCounter } from './helpers/memory-storage';
+
+const vectorParser = (text: string) => [text.length, text.charCodeAt(0)];
+
+// 경로마다 캐시가 공유되므로 테스트마다 새 경로를 사용
+const nextPath = pathCounter('lifecycle');
+
+const savedContents = (provider: MemoryStorageProvider, path: string) =>
+  (provider.data.get(path) as MemoryVectorSnapshot | undefined)?.items.map(([content]) => content);
+
+describe('Store lifecycle', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should reject failed saves and keep the changes for the next one', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const storagePath = nextPath();
+    const store = memoryVectorStore(vectorParser, { storagePath, storageProvider, autoSave: false, onError: () => {} });
+
+    await store.add('apple');
+    storageProvider.failing = true;
+    // 동시에 호출한 저장은 같은 결과로 끝남
+    const results = await Promise.allSettled([store.save(), store.save()]);
+    expect(results.map(({ status }) => status)).toEqual(['rejected', 'rejected']);
+
+    storageProvider.failing = false;
+    await store.save();
+    expect(savedContents(storageProvider, storagePath)).toEqual(['apple']);
+  });
+
+  it('should write right away on flush and batch automatic saves', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const storagePath = nextPath();
+    const store = memoryVectorStore(vectorParser, { storagePath, storageProvider });
+
+    await store.add('apple');
+    await store.add('banana');
+    expect(storageProvider.saves).toBe(0);
+
+    await store.flush();
+    expect(savedContents(storageProvider, storagePath)).toEqual(['apple', 'banana']);
+    expect(storageProvider.saves).toBe(1);
+
+    // 저장할 변경이 없으면 다시 쓰지 않음
+    await store.flush();
+    await store.save();
+    expect(storageProvider.saves).toBe(1);
+  });
+
+  it('should flush on close and load again in the next store', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const storagePath = nextPath();
+    const store = memoryVectorStore(vectorParser, { storagePath, storageProvider });
+    const notes = store.collection('notes');
+
+    await store.add('apple');
+    await notes.add('note');
+    await store.close();
+    expect(savedContents(storageProvider, storagePath)).toEqual(['apple', 'note']);
+
+    // 같은 파일의 컬렉션도 함께 닫힘
+    await expect(store.add('banana')).rejects.toThrow(StoreClosedError);
+    await expect(notes.removeById('note')).rejects.toThrow(StoreClosedError);
+    await expect(store.save()).rejects.toThrow(StoreClosedError);
+    await store.dispose();
+
+    // 캐시가 해제되어 저장된 데이터를 다시 불러옴
+    (storageProvider.data.get(storagePath) as MemoryVectorSnapshot).items.pop();
+    const reopened = memoryVectorStore(vectorParser, { storagePath, storageProvider });
+    expect(reopened.getAll().map(({ content }) => content)).toEqual(['apple']);
+    expect(reopened.listCollections()).toEqual([]);
+  });
+
+  it('should flush on beforeExit with flushOnExit', async () => {
+    const storageProvider = new MemoryStorageProvider();
+    const storagePath = nextPath();
+    const before = process.listeners('beforeExit');
+    const store = memoryVectorStore(vectorParser, { storagePath, storageProvider, flushOnExit: true });
+    const [hook] = process.listeners('beforeExit').filter((listener) => !before.includes(listener));
+    expect(hook).toBeDefined();
+
+    await store.add('apple');
+    hook(0);
+    await vi.waitFor(() => expect(savedContents(storageProvider, storagePath)).toEqual(['apple']));
+
+    await store.close();
+    expect(process.listeners('beforeExit')).not.toContain(hook);
+  });
+});
@@ -0,0 +1,78 @@
+// test/metric.test.ts
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { memoryVectorStore, MetricMismatchError } from '../src/core/node';
+import { cosineSimilarity, dotProduct, euclideanDistance, manhattanDistance } from '../src/shared/metric';
+
+const TEST_FILE_PATH = path.join(process.cwd(), 'test-metric-store.json');
+
+const vectors: Record<string, number[]> = {
+  origin: [0, 0],
+  near: [1, 1],
+  far: [10, 10],
+  side: [3, 0],
+};
+
+const vectorParser = (text: string) => vectors[text] ?? [0, 0];
+
+describe('metrics', () => {
+  afterEach(() => {
+    if (fs.existsSync(TEST_FILE_PATH)) {
+      fs.unlinkSync(TEST_FILE_PATH);
+    }
+    fs.rmSync(`${TEST_FILE_PATH}.bak`, { force: true });
+  });
+
+  it('should compute each built-in metric', () => {
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(dotProduct([1, 2], [3, 4])).toBe(11);
+    expect(euclideanDistance([0, 0], [3, 4])).toBe(5);
+    expect(manhattanDistance([0, 0], [3, -4])).toBe(7);
+  });
+
+  it('should sort distance metrics ascending', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: TEST_FILE_PATH,
+      autoSave: false,
+      metric: 'euclidean',
+    });
+    await store.addMany(['near', 'far', 'side']);
+
+    const results = await store.similaritySearch('origin', 3);
+
+    expect(results.map((item) => item.content)).toEqual(['near', 'side', 'far']);
+    expect(results[0].score).toBeCloseTo(Math.SQRT2);
+  });
+
+  it('should persist the metric and reject a different one', async () => {
+    const metricPath = path.join(process.cwd(), 'test-metric-store-persisted.json');
+    const store = memoryVectorStore(vectorParser, { storagePath: metricPath, metric: 'manhattan' });
+    await store.add('near');
+    await store.save();
+
+    const raw = JSON.parse(fs.readFileSync(metricPath, 'utf8'));
+    fs.unlinkSync(metricPath);
+
+    expect(raw.metric).toBe('manhattan');
+    expect(() => memoryVectorStore(vectorParser, { storagePath: metricPath, metric: 'cosine' })).toThrow(
+      MetricMismatchError
+    );
+    // 메트릭을 지정하지 않으면 저장된 메트릭을 그대로 사용
+    const reopened = memoryVectorStore(vectorParser, { storagePath: metricPath });
+    expect((await reopened.similaritySearch('origin', 1))[0].score).toBe(2);
+  });
+
+  it('should accept a custom metric', async () => {
+    const customPath = path.join(process.cwd(), 'test-metric-store-custom.json');
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: customPath,
+      autoSave: false,
+      metric: { name: 'negative-x', score: (a, b) => -Math.abs(a[0] - b[0]) },
+    });
+    await store.addMany(['far', 'side']);
+
+    const results = await store.similaritySearch('near', 2);
+    expect(results.map((item) => item.content)).toEqual(['side', 'far']);
+  });
+});
@@ -0,0 +1,72 @@
+// test/parent-search.test.ts
+import { describe, it, expect } from 'vitest';
+import { memoryVectorStore } from '../src/core/node';
+import { MemoryStorageProvider, pathCounter } from './helpers/memory-storage';
+
+// 과일 이름이 들어있는지로 만든 벡터
+const vectorParser = (text: string) => {
+  const lower = text.toLowerCase();
+  return [lower.includes('appl') ? 1 : 0, lower.includes('banana') ? 1 : 0, lower.includes('cherr') ? 1 : 0, 0.1];
+};
+
+// 경로마다 캐시가 공유되므로 테스트마다 새 경로를 사용
+const nextPath = pathCounter('parent-search');
+
+const fruits = ['Intro about fruit.', 'Apples are red.', 'Bananas are yellow.', 'Cherries are small.', 'Outro.'].join(
+  '\n\n'
+);
+
+const createStore = async () => {
+  const store = memoryVectorStore(vectorParser, {
+    storagePath: nextPath(),
+    storageProvider: new MemoryStorageProvider(),
+  });
+  await store.addDocument(fruits, { id: 'fruits', chunkSize: 25, overlap: 0 });
+  await store.add('banana and apple bread');
+  return store;
+};
+
+describe('parentDocumentSearch', () => {
+  it('should group chunks by document and add the neighbouring chunks', async () => {
+    const store = await createStore();
+
+    const results = await store.parentDocumentSearch('banana', { minScore: 0.5, window: 1 });
+
+    expect(results.map(({ parentId }) => parentId)).toEqual(['fruits', expect.any(String)]);
+    expect(results[0].content).toBe('Apples are red.\nBananas are yellow.\nCherries are small.');
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results[0].chunks.map(({ id }) => id)).toEqual(['fruits#2']);
+    // 나눠서 추가하지 않은 문서는 그 자체가 부모
+    expect(results[1]).toMatchObject({
+      content: 'banana and apple bread',
+      chunks: [{ content: 'banana and apple bread' }],
+    });
+  });
+
+  it('should keep one result per document with its best score', async () => {
+    const store = await createStore();
+
+    const results = await store.parentDocumentSearch('apple cherry', { k: 1, minScore: 0.6 });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].chunks.map(({ id }) => id).sort()).toEqual(['fruits#1', 'fruits#3']);
+    // 떨어진 청크는 빈 줄로 구분
+    expect(results[0].content).toBe('Apples are red.\n\nCherries are small.');
+    expect(results[0].metadata!.chunk.parentId).toBe('fruits');
+  });
+
+  it('should return the whole document without repeating overlapping text', async () => {
+    const store = memoryVectorStore((text: string) => [text.length, 1], {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+    });
+    const text = 'one two three four five six seven eight nine ten';
+    await store.addDocument(text, { id: 'numbers', chunkSize: 20, overlap: 10 });
+    expect(store.count()).toBe(4);
+
+    const [result] = await store.parentDocumentSearch('eight', { k: 1, fullDocument: true });
+
+    expect(result.parentId).toBe('numbers');
+    expect(result.content).toBe(text);
+  });
+});
@@ -0,0 +1,142 @@
+// test/quantization.test.ts
+import { describe, it, expect } from 'vitest';
+import { memoryVectorStore } from '../src/core/node';
+import { MemoryVectorQuantization, MemoryVectorSnapshot } from '../src/interface';
+import { binarySnapshotSize, decodeBinarySnapshot, encodeBinarySnapshot } from '../src/storage/binary-format';
+import { seededRandom } from '../src/shared/util';
+import { resolveMetric } from '../src/shared/metric';
+import { dequantize, quantize, scoreVectors } from '../src/shared/quantization';
+import { MemoryStorageProvider, pathCounter } from './helpers/memory-storage';
+
+const random = seededRandom(11);
+const texts = Array.from({ length: 60 }, (_, i) => `document ${i}`);
+const vectors = new Map(texts.map((text) => [text, Array.from({ length: 20 }, () => random() * 2 - 1)]));
+const vectorParser = (text: string) => vectors.get(text) ?? Array.from({ length: 20 }, (_, i) => Math.sin(i + 1));
+
+// 경로마다 캐시가 공유되므로 테스트마다 새 경로를 사용
+const nextPath = pathCounter('quantization');
+
+const createStore = async (quantization: MemoryVectorQuantization, storageProvider = new MemoryStorageProvider()) => {
+  const storagePath = nextPath();
+  const store = memoryVectorStore(vectorParser, { storagePath, storageProvider, quantization });
+  await store.addMany(texts);
+  await store.flush();
+  return { store, storagePath, storageProvider };
+};
+
+const search = async (quantization: MemoryVectorQuantization) => {
+  const { store } = await createStore(quantization);
+  return store.similaritySearch('query', { k: 5 });
+};
+
+describe('Vector quantization', () => {
+  it('should score int8 vectors close to full precision and save them as codes', async () => {
+    const exact = await search('none');
+    const { store, storagePath, storageProvider } = await createStore('int8');
+    const results = await store.similaritySearch('query', { k: 5 });
+
+    expect(results.map(({ id }) => id)).toEqual(exact.map(({ id }) => id));
+    results.forEach(({ score }, i) => expect(score).toBeCloseTo(exact[i].score, 2));
+
+    const saved = storageProvider.data.get(storagePath) as MemoryVectorSnapshot;
+    expect(saved).toMatchObject({ quantization: 'int8', dimension: 20 });
+    const [, codes, , , attributes] = saved.items[0];
+    expect(codes.every((code) => Number.isInteger(code) && Math.abs(code) <= 127)).toBe(true);
+    expect(attributes!.scale).toBeGreaterThan(0);
+
+    // 다시 불러온 저장소도 같은 결과
+    await store.close();
+    const reopened = memoryVectorStore(vectorParser, { storagePath, storageProvider, quantization: 'int8' });
+    const reloaded = await reopened.similaritySearch('query', { k: 5 });
+    expect(reloaded.map(({ id, score }) => [id, score])).toEqual(results.map(({ id, score }) => [id, score]));
+  });
+
+  it('should pack binary codes and restore exact scores with re-ranking', async () => {
+    const exact = await search('none');
+    const { store, storagePath, storageProvider } = await createStore('binary');
+    const saved = storageProvider.data.get(storagePath) as MemoryVectorSnapshot;
+    // 20차원은 3바이트
+    expect(saved.items[0][1]).toHaveLength(3);
+    const recall = (await store.similaritySearch('query', { k: 5 })).filter(({ id }) =>
+      exact.some((result) => result.id === id)
+    ).length;
+    expect(recall).toBeGreaterThanOrEqual(2);
+
+    // 재정렬하면 상위 후보의 점수는 원래 벡터로 계산
+    const reranked = await createStore({ type: 'binary', rerank: 12 });
+    const results = await reranked.store.similaritySearch('query', { k: 5 });
+    expect(results.map(({ id }) => id)).toEqual(exact.map(({ id }) => id));
+    results.forEach(({ score }, i) => expect(score).toBeCloseTo(exact[i].score, 5));
+    // 원래 벡터를 저장하므로 양자화 표시가 없음
+    const rerankedSaved = reranked.storageProvider.data.get(reranked.storagePath) as MemoryVectorSnapshot;
+    expect(rerankedSaved.quantization).toBeUndefined();
+    expect(rerankedSaved.items[0][1][0]).toBeCloseTo(vectors.get(texts[0])![0], 5);
+  });
+
+  it('should convert saved codes when the quantization option changes', async () => {
+    const { store, storagePath, storageProvider } = await createStore('int8');
+    await store.close();
+
+    const full = memoryVectorStore(vectorParser, { storagePath, storageProvider });
+    const [result] = await full.similaritySearch('document 3', { k: 1, includeVectors: true });
+    expect(result.id).toBe(store.getAll()[3].id);
+    result.vector!.forEach((value, i) => expect(value).toBeCloseTo(vectors.get('document 3')![i], 1));
+
+    await full.add('document extra');
+    await full.close();
+    expect((storageProvider.data.get(storagePath) as MemoryVectorSnapshot).quantization).toBeUndefined();
+  });
+
+  it('should search an HNSW index built on quantized vectors', async () => {
+    const storagePath = nextPath();
+    const store = memoryVectorStore(vectorParser, {
+      storagePath,
+      storageProvider: new MemoryStorageProvider(),
+      quantization: 'int8',
+      // 60개 문서로도 인덱스를 사용하도록 그래프 검색 범위를 줄임
+      index: { type: 'hnsw', M: 4, efSearch: 4 },
+    });
+    await store.addMany(texts);
+
+    const [result] = await store.similaritySearch('document 42', { k: 1 });
+    expect(result.content).toBe('document 42');
+    expect(result.score).toBeCloseTo(1, 2);
+  });
+
+  it('should score codes like the values they stand for', () => {
+    // 37차원: 바이너리 코드의 마지막 바이트가 일부만 채워짐
+    const [a, b] = [0, 1].map(() => Array.from({ length: 37 }, () => random() * 2 - 1));
+    for (const type of ['int8', 'binary'] as const) {
+      const [codesA, codesB] = [a, b].map((vector) => quantize(vector, { type, rerank: 0 }));
+      for (const name of ['cosine', 'dot', 'euclidean', 'manhattan'] as const) {
+        const metric = resolveMetric(name);
+        const expected = metric.score(dequantize(codesA), dequantize(codesB));
+        expect(scoreVectors(metric, codesA, codesB)).toBeCloseTo(expected, 10);
+        expect(scoreVectors(metric, a, codesB)).toBeCloseTo(metric.score(a, dequantize(codesB)), 10);
+        expect(scoreVectors(metric, codesA, b)).toBeCloseTo(metric.score(dequantize(codesA), b), 10);
+      }
+    }
+  });
+
+  it('should write one byte per code in the binary format', () => {
+    const snapshot: MemoryVectorSnapshot = {
+      version: 1,
+      metric: 'cosine',
+      quantization: 'int8',
+      dimension: 3,
+      items: [['a', [-127, 0, 64], undefined, 'a', { createdAt: 1, accessedAt: 1, hits: 0, scale: 0.01 }]],
+    };
+    const binary = {
+      ...snapshot,
+      quantization: 'binary' as const,
+      items: [['b', [200]]] as MemoryVectorSnapshot['items'],
+    };
+
+    expect(decodeBinarySnapshot(encodeBinarySnapshot(snapshot))).toEqual(JSON.parse(JSON.stringify(snapshot)));
+    expect(decodeBinarySnapshot(encodeBinarySnapshot(binary))).toEqual(binary);
+    // 값 하나가 늘면 1바이트 증가
+    const longer = { ...snapshot, dimension: 4, items: [['a', [-127, 0, 64, 1], ...snapshot.items[0].slice(2)]] };
+    expect(encodeBinarySnapshot(longer as MemoryVectorSnapshot).length - encodeBinarySnapshot(snapshot).length).toBe(1);
+    expect(binarySnapshotSize(snapshot)).toBe(encodeBinarySnapshot(snapshot).length);
+  });
+});
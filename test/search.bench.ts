@@ -0,0 +1,115 @@
+// test/search.bench.ts
+import { bench, describe } from 'vitest';
+import { memoryVectorStore } from '../src/core/node';
+import { MemoryDocument, MemoryVectorSearchResult } from '../src/interface';
+import { compareScores, resolveMetric } from '../src/shared/metric';
+import { matchesFilter } from '../src/shared/filter';
+import { seededRandom } from '../src/shared/util';
+import { MemoryStorageProvider } from './helpers/memory-storage';
+
+const COUNT = 50_000;
+const DIMENSION = 256;
+const CLUSTERS = 200;
+
+const random = seededRandom(25);
+const randomVector = () => Array.from({ length: DIMENSION }, () => random() * 2 - 1);
+// 실제 임베딩처럼 주제별로 모인 벡터: 균일한 난수 벡터에서는 HNSW가 이웃을 찾지 못함
+const centers = Array.from({ length: CLUSTERS }, randomVector);
+const nearCenter = (center: number[]) => center.map((value) => value + (random() * 2 - 1) * 0.5);
+const documents: MemoryDocument<{ group: number }>[] = Array.from({ length: COUNT }, (_, i) => ({
+  id: `doc-${i}`,
+  content: `document ${i}`,
+  metadata: { group: i % 10 },
+}));
+const vectors = new Map(documents.map(({ content }, i) => [content, nearCenter(centers[i % CLUSTERS])]));
+const query = nearCenter(centers[0]);
+
+const store = memoryVectorStore<{ group: number }>((text: string) => vectors.get(text) ?? query, {
+  storagePath: 'search-bench',
+  storageProvider: new MemoryStorageProvider(),
+  autoSave: false,
+});
+await store.addMany(documents);
+
+// 정확 검색은 곱셈-덧셈 비용에 묶여 10배에 닿지 않으므로 HNSW 인덱스 검색도 함께 측정
+const indexed = memoryVectorStore<{ group: number }>((text: string) => vectors.get(text) ?? query, {
+  storagePath: 'search-bench-hnsw',
+  storageProvider: new MemoryStorageProvider(),
+  autoSave: false,
+  index: { type: 'hnsw', efConstruction: 64, efSearch: 100 },
+});
+await indexed.addMany(documents);
+
+// 근사 검색이므로 속도와 함께 정확 검색 상위 10개 중 찾은 비율을 여러 질의의 평균으로 출력
+let found = 0;
+for (let i = 0; i < 20; i++) {
+  const vector = i === 0 ? query : nearCenter(centers[Math.floor(random() * CLUSTERS)]);
+  const exactIds = new Set((await store.similaritySearchByVector(vector, { k: 10 })).map(({ id }) => id));
+  const results = await indexed.similaritySearchByVector(vector, { k: 10 });
+  found += results.filter(({ id }) => exactIds.has(id)).length;
+}
+console.log(`HNSW recall@10: ${found / 200}`);
+
+// arena 이전의 정확 검색을 그대로 옮긴 것: number[] 벡터를 Map에 보관하고, 문서마다 객체를 만들어 필터를 해석하고,
+// 매번 노름을 다시 계산한 뒤 전체를 정렬
+interface PreArenaEntry {
+  content: string;
+  metadata: { group: number };
+  vector: number[];
+}
+const preArenaStore = new Map<string, PreArenaEntry>(
+  documents.map(({ id, content, metadata }) => [id!, { content, metadata: metadata!, vector: vectors.get(content)! }])
+);
+const splitKey = (key: string): [collection: string | undefined, id: string] => {
+  const index = key.indexOf('\u0000');
+  return index === -1 ? [undefined, key] : [key.slice(0, index), key.slice(index + 1)];
+};
+const cosine = resolveMetric('cosine');
+const preArenaSearch = (k: number, filter?: { group: number }): MemoryVectorSearchResult<{ group: number }>[] => {
+  const predicate = filter && ((doc: MemoryDocument<{ group: number }>) => matchesFilter(doc.metadata, filter));
+  const scored: { id: string; entry: PreArenaEntry; score: number }[] = [];
+  for (const [id, entry] of preArenaStore) {
+    if (predicate && !predicate({ id: splitKey(id)[1], content: entry.content, metadata: entry.metadata })) continue;
+    scored.push({ id, entry, score: cosine.score(query, entry.vector) });
+  }
+  scored.sort(compareScores(cosine));
+  return scored.slice(0, k).map(({ id, entry, score }) => {
+    const [collection, key] = splitKey(id);
+    const result: MemoryVectorSearchResult<{ group: number }> = {
+      id: key,
+      content: entry.content,
+      metadata: entry.metadata,
+      score,
+    };
+    if (collection !== undefined) result.collection = collection;
+    return result;
+  });
+};
+
+describe(`similaritySearch over ${COUNT} documents of ${DIMENSION} dimensions`, () => {
+  bench('pre-arena exact search', () => {
+    preArenaSearch(10);
+  });
+
+  bench('similaritySearchByVector', async () => {
+    await store.similaritySearchByVector(query, { k: 10 });
+  });
+
+  bench('similaritySearchByVector with the HNSW index', async () => {
+    await indexed.similaritySearchByVector(query, { k: 10 });
+  });
+});
+
+describe(`filtered similaritySearch over ${COUNT} documents`, () => {
+  bench('pre-arena exact search', () => {
+    preArenaSearch(10, { group: 3 });
+  });
+
+  bench('similaritySearchByVector', async () => {
+    await store.similaritySearchByVector(query, { k: 10, filter: { group: 3 } });
+  });
+
+  bench('similaritySearchByVector with the HNSW index', async () => {
+    await indexed.similaritySearchByVector(query, { k: 10, filter: { group: 3 } });
+  });
+});
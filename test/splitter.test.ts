@@ -0,0 +1,116 @@
+// test/splitter.test.ts
+import { describe, it, expect } from 'vitest';
+import { memoryVectorStore } from '../src/core/node';
+import { MemoryChunkInfo } from '../src/interface';
+import { markdownHeadingSplitter, recursiveCharacterSplitter, sentenceSplitter } from '../src/shared/splitter';
+import { MemoryVectorStoreError } from '../src/shared/errors';
+import { MemoryStorageProvider, pathCounter } from './helpers/memory-storage';
+
+const vectorParser = (text: string) => [text.length, text.charCodeAt(0)];
+
+// 경로마다 캐시가 공유되므로 테스트마다 새 경로를 사용
+const nextPath = pathCounter('splitter');
+
+const paragraphs = Array.from({ length: 6 }, (_, i) => `Paragraph ${i} ` + 'word '.repeat(10).trim()).join('\n\n');
+
+describe('Text splitters', () => {
+  it('should split at paragraphs first and keep chunks within chunkSize', () => {
+    const chunks = recursiveCharacterSplitter(paragraphs, { chunkSize: 130, overlap: 0 });
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks[0]).toBe(paragraphs.split('\n\n').slice(0, 2).join('\n\n'));
+    expect(chunks.every((chunk) => chunk.length <= 130)).toBe(true);
+  });
+
+  it('should repeat the end of the previous chunk up to the overlap', () => {
+    const text = 'one two three four five six seven eight nine ten';
+    const chunks = recursiveCharacterSplitter(text, { chunkSize: 20, overlap: 10 });
+
+    expect(chunks).toEqual(['one two three four', 'four five six seven', 'six seven eight', 'eight nine ten']);
+    // 구분자가 없으면 글자 단위로 자름
+    expect(recursiveCharacterSplitter('a'.repeat(25), { chunkSize: 10, overlap: 0 })).toEqual([
+      'a'.repeat(10),
+      'a'.repeat(10),
+      'a'.repeat(5),
+    ]);
+  });
+
+  it('should join whole sentences', () => {
+    const text = 'First sentence here. Second one! Is this the third? 네 번째 문장。다섯 번째';
+    const chunks = sentenceSplitter(text, { chunkSize: 40, overlap: 0 });
+
+    expect(chunks).toEqual(['First sentence here. Second one!', 'Is this the third? 네 번째 문장。다섯 번째']);
+  });
+
+  it('should start a chunk at every markdown heading outside code blocks', () => {
+    const text = ['# Title', 'Intro', '## Setup', '```sh', '# not a heading', '```', '## Usage', 'Run it'].join('\n');
+    const chunks = markdownHeadingSplitter(text, { chunkSize: 100, overlap: 0 });
+
+    expect(chunks).toEqual(['# Title\nIntro', '## Setup\n```sh\n# not a heading\n```', '## Usage\nRun it']);
+  });
+
+  it('should reject an overlap not smaller than chunkSize', () => {
+    expect(() => recursiveCharacterSplitter('text', { chunkSize: 10, overlap: 10 })).toThrow(MemoryVectorStoreError);
+    expect(() => sentenceSplitter('text', { chunkSize: 0, overlap: 0 })).toThrow(MemoryVectorStoreError);
+  });
+});
+
+describe('addDocument', () => {
+  it('should store chunks with their parent id and position', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+    });
+
+    const { parentId, added, failed } = await store.addDocument(paragraphs, {
+      id: 'guide',
+      chunkSize: 130,
+      overlap: 0,
+      metadata: { source: 'guide.md' },
+    });
+
+    expect(parentId).toBe('guide');
+    expect(failed).toEqual([]);
+    expect(added.map(({ document }) => document.id)).toEqual(['guide#0', 'guide#1', 'guide#2']);
+    const chunk: MemoryChunkInfo = store.get('guide#1')!.metadata!.chunk;
+    expect(store.get('guide#1')!.metadata!.source).toBe('guide.md');
+    expect(chunk).toMatchObject({ parentId: 'guide', index: 1, count: 3 });
+    expect(paragraphs.slice(chunk.start, chunk.end)).toBe(store.get('guide#1')!.content);
+
+    // 부모 문서 단위로 필터링 가능
+    const results = await store.similaritySearch('Paragraph', { k: 10, filter: { 'chunk.parentId': 'guide' } });
+    expect(results).toHaveLength(3);
+  });
+
+  it('should replace the chunks of a document added again and remove them together', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+    });
+
+    await store.addDocument(paragraphs, { id: 'guide', chunkSize: 130, overlap: 0 });
+    await store.add('unrelated');
+    await store.addDocument('A short guide.', { id: 'guide' });
+    expect(store.getAll().map(({ id }) => id)).toEqual(['guide#0', expect.any(String)]);
+    expect(store.get('guide#0')!.content).toBe('A short guide.');
+
+    await store.removeDocument('guide');
+    expect(store.getAll().map(({ content }) => content)).toEqual(['unrelated']);
+  });
+
+  it('should split with a custom splitter and derive the id from the text', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath: nextPath(),
+      storageProvider: new MemoryStorageProvider(),
+    });
+
+    const { parentId, added } = await store.addDocument('alpha|beta', {
+      splitter: (text) => text.split('|').map((part) => part.toUpperCase()),
+    });
+
+    expect(parentId).toEqual(expect.any(String));
+    expect(added.map(({ document }) => document.content)).toEqual(['ALPHA', 'BETA']);
+    // 바뀐 텍스트는 위치를 알 수 없음
+    expect(added[0].document.metadata!.chunk).toEqual({ parentId, index: 0, count: 2 });
+  });
+});
@@ -1,9 +1,20 @@
 // test/storage-provider.test.ts
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { NodeStorageProvider } from '../src/storage/node-file-storage';
 import fs from 'fs';
 import path from 'path';
-import { MemoryVectorDataSerialize } from '../src/interface';
+import { MemoryVectorDataSerialize, MemoryVectorStorageProvider, MemoryVectorStoreData } from '../src/interface';
+import { memoryVectorStore } from '../src/core/node';
+import { browserMemoryVectorStore } from '../src/core/browser';
+import { StoreCorruptedError, StoreLockedError } from '../src/shared/errors';
+import { acquireFileLock, acquireFileLockSync } from '../src/storage/node-file-lock';
+import {
+  decodeBinarySnapshot,
+  encodeBinarySnapshot,
+  fromFloat16Bits,
+  packedSnapshotSize,
+  toFloat16Bits,
+} from '../src/storage/binary-format';
 
 // 테스트용 임시 파일 경로
 const TEST_FILE_PATH = path.join(process.cwd(), 'test-storage-provider.json');
@@ -13,12 +24,14 @@ describe('NodeStorageProvider', () => {
     if (fs.existsSync(TEST_FILE_PATH)) {
       fs.unlinkSync(TEST_FILE_PATH);
     }
+    fs.rmSync(`${TEST_FILE_PATH}.bak`, { force: true });
   });
 
   afterEach(() => {
     if (fs.existsSync(TEST_FILE_PATH)) {
       fs.unlinkSync(TEST_FILE_PATH);
     }
+    fs.rmSync(`${TEST_FILE_PATH}.bak`, { force: true });
   });
 
   it('should save and load data correctly', () => {
@@ -54,3 +67,400 @@ describe('NodeStorageProvider', () => {
     expect(loadedData).toEqual([]);
   });
 });
+
+describe('Binary format', () => {
+  const snapshot: MemoryVectorStoreData = {
+    version: 1,
+    metric: 'cosine',
+    items: [
+      ['apple', [0.5, -1.25, 3], { color: 'red' }, 'a'],
+      ['banana', [4, 5, 6], undefined, 'b'],
+    ],
+  };
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_FILE_PATH)) fs.unlinkSync(TEST_FILE_PATH);
+    fs.rmSync(`${TEST_FILE_PATH}.bak`, { force: true });
+  });
+
+  it('should round-trip snapshots and legacy arrays', () => {
+    expect(decodeBinarySnapshot(encodeBinarySnapshot(snapshot))).toEqual(JSON.parse(JSON.stringify(snapshot)));
+
+    // 길이가 다른 벡터도 저장 가능
+    const legacy: MemoryVectorDataSerialize[] = [
+      ['short', [1]],
+      ['long', [1, 2, 3, 4]],
+    ];
+    expect(decodeBinarySnapshot(encodeBinarySnapshot(legacy))).toEqual(legacy);
+  });
+
+  it('should store vectors as float16', () => {
+    expect(toFloat16Bits(1)).toBe(0x3c00);
+    expect(toFloat16Bits(-2)).toBe(0xc000);
+    expect(toFloat16Bits(65504)).toBe(0x7bff);
+    expect(fromFloat16Bits(toFloat16Bits(1e-6))).toBeCloseTo(1e-6, 7);
+
+    const decoded = decodeBinarySnapshot(encodeBinarySnapshot([['pi', [Math.PI]]], 'float16'));
+    expect((decoded as MemoryVectorDataSerialize[])[0][1][0]).toBeCloseTo(Math.PI, 2);
+  });
+
+  it('should measure packed snapshots without their vectors as text', () => {
+    const size = packedSnapshotSize(snapshot);
+    // 값 하나당 4바이트
+    const longer = { ...snapshot, items: [['apple', [0.5, -1.25, 3, 7], { color: 'red' }, 'a'], snapshot.items[1]] };
+    expect(packedSnapshotSize(longer as MemoryVectorStoreData)).toBe(size + 4);
+    expect(size).toBeLessThan(JSON.stringify(snapshot).length + 6 * 4);
+  });
+
+  it('should detect the format on load and convert JSON files', () => {
+    new NodeStorageProvider().save(TEST_FILE_PATH, snapshot);
+
+    const binary = new NodeStorageProvider({ format: 'binary' });
+    binary.save(TEST_FILE_PATH, binary.load(TEST_FILE_PATH));
+
+    expect(fs.readFileSync(TEST_FILE_PATH).subarray(0, 4).toString()).toBe('MVSB');
+    expect(binary.size(snapshot)).toBe(fs.statSync(TEST_FILE_PATH).size);
+    // JSON 형식으로 저장하는 프로바이더도 바이너리 파일을 읽을 수 있어야 함
+    expect(new NodeStorageProvider().load(TEST_FILE_PATH)).toEqual(JSON.parse(JSON.stringify(snapshot)));
+  });
+
+  it('should persist a store in the binary format', async () => {
+    const storagePath = path.join(process.cwd(), 'test-binary-store.bin');
+    const vectorParser = (text: string) => Array.from({ length: 64 }, (_, i) => Math.sin(text.length + i));
+    const store = memoryVectorStore(vectorParser, { storagePath, format: 'binary', autoSave: false });
+    await store.addMany(['apple', 'banana', 'cherry']);
+    await store.save();
+
+    const loaded = new NodeStorageProvider().load(storagePath);
+    const binarySize = fs.statSync(storagePath).size;
+    fs.unlinkSync(storagePath);
+
+    // 64차원 벡터 기준 JSON보다 훨씬 작아야 함
+    expect(binarySize * 3).toBeLessThan(JSON.stringify(loaded).length);
+    expect(Array.isArray(loaded) ? loaded : loaded.items).toHaveLength(3);
+    expect(Array.isArray(loaded) ? undefined : loaded.metric).toBe('cosine');
+  });
+});
+
+describe('Crash-safe writes', () => {
+  const storagePath = path.join(process.cwd(), 'test-recovery-store.json');
+  const snapshot = (items: MemoryVectorDataSerialize[]): MemoryVectorStoreData => ({
+    version: 1,
+    metric: 'cosine',
+    items,
+  });
+
+  afterEach(() => {
+    for (const file of fs.readdirSync(process.cwd())) {
+      if (file.startsWith('test-recovery-store')) fs.unlinkSync(path.join(process.cwd(), file));
+    }
+  });
+
+  it('should keep a backup and detect corrupted files', () => {
+    const provider = new NodeStorageProvider();
+    provider.save(storagePath, snapshot([['apple', [1, 2], undefined, 'a']]));
+    provider.save(storagePath, snapshot([['banana', [3, 4], undefined, 'b']]));
+
+    expect(fs.existsSync(`${storagePath}.tmp`)).toBe(false);
+    expect(fs.readFileSync(storagePath, 'utf8')).toMatch(/"checksum":"[0-9a-f]{14}"}$/);
+    expect(provider.load(storagePath)).toEqual({
+      version: 1,
+      metric: 'cosine',
+      items: [['banana', [3, 4], null, 'b']],
+    });
+
+    // 체크섬 불일치 재현: 값 하나만 변경
+    fs.writeFileSync(storagePath, fs.readFileSync(storagePath, 'utf8').replace('[3,4]', '[3,5]'));
+
+    let error: unknown;
+    try {
+      provider.load(storagePath);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(StoreCorruptedError);
+    const corrupted = error as StoreCorruptedError;
+    expect(corrupted.backup).toEqual({ version: 1, metric: 'cosine', items: [['apple', [1, 2], null, 'a']] });
+    expect(fs.existsSync(corrupted.corruptedPath!)).toBe(true);
+    expect(fs.existsSync(storagePath)).toBe(false);
+  });
+
+  it('should detect corrupted binary files', () => {
+    const provider = new NodeStorageProvider({ format: 'binary', backup: false });
+    provider.save(storagePath, snapshot([['apple', [1, 2], undefined, 'a']]));
+    const bytes = fs.readFileSync(storagePath);
+    bytes[30] ^= 0xff;
+    fs.writeFileSync(storagePath, bytes);
+
+    expect(() => provider.load(storagePath)).toThrow(StoreCorruptedError);
+  });
+
+  it('should load the backup and report the corruption through onError', async () => {
+    const provider = new NodeStorageProvider();
+    provider.save(storagePath, snapshot([['apple', [1, 2], undefined, 'a']]));
+    provider.save(storagePath, snapshot([['banana', [3, 4], undefined, 'b']]));
+    // 쓰기 도중 중단된 파일 재현
+    fs.truncateSync(storagePath, 20);
+
+    const errors: Error[] = [];
+    const store = memoryVectorStore((text) => [text.length, 1], {
+      storagePath,
+      autoSave: false,
+      onError: (error) => errors.push(error),
+    });
+
+    expect(errors[0]).toBeInstanceOf(StoreCorruptedError);
+    expect(store.getAll().map((item) => item.content)).toEqual(['apple']);
+  });
+});
+
+describe('Multi-process access', () => {
+  const storagePath = path.join(process.cwd(), 'test-shared-store.json');
+  const lockPath = `${storagePath}.lock`;
+  const vectorParser = (text: string) => [text.length, 1];
+  // 다른 프로세스가 저장한 것처럼 파일을 직접 기록
+  const writeExternally = (contents: string[], file = storagePath) =>
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        version: 1,
+        metric: 'cosine',
+        items: contents.map((content) => [content, vectorParser(content)]),
+      })
+    );
+
+  afterEach(() => {
+    for (const file of fs.readdirSync(process.cwd())) {
+      if (file.startsWith('test-shared-store')) fs.unlinkSync(path.join(process.cwd(), file));
+    }
+  });
+
+  it('should wait for locks of live processes and remove stale ones', async () => {
+    const options = { timeoutMs: 50, staleMs: 60000 };
+    fs.writeFileSync(lockPath, `${process.ppid}\n${Date.now()}`);
+    await expect(acquireFileLock(lockPath, options)).rejects.toThrow(StoreLockedError);
+    expect(() => acquireFileLockSync(lockPath, options)).toThrow(StoreLockedError);
+
+    // 종료된 프로세스의 잠금은 무시
+    fs.writeFileSync(lockPath, `999999999\n${Date.now()}`);
+    const release = await acquireFileLock(lockPath, options);
+    // 옮겨서 지운 오래된 잠금 파일은 남지 않아야 함
+    expect(fs.readdirSync(path.dirname(lockPath)).filter((file) => file.endsWith('.stale'))).toEqual([]);
+    // 같은 프로세스 안에서는 중첩 획득 가능
+    (await acquireFileLock(lockPath, options))();
+    acquireFileLockSync(lockPath, options)();
+    expect(fs.existsSync(lockPath)).toBe(true);
+    release();
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it('should keep the event loop running while waiting for a lock', async () => {
+    fs.writeFileSync(lockPath, `${process.ppid}\n${Date.now()}`);
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 5);
+    try {
+      await expect(acquireFileLock(lockPath, { timeoutMs: 200, staleMs: 60000 })).rejects.toThrow(StoreLockedError);
+    } finally {
+      clearInterval(timer);
+    }
+    // 잠금을 기다리는 동안에도 타이머가 실행되어야 함
+    expect(ticks).toBeGreaterThan(5);
+  });
+
+  it('should merge changes saved by another process', async () => {
+    const store = memoryVectorStore(vectorParser, { storagePath, autoSave: false });
+    await store.add('apple');
+    await store.save();
+
+    writeExternally(['apple', 'banana']);
+    await store.add('cherry');
+    await store.save();
+
+    const saved = JSON.parse(fs.readFileSync(storagePath, 'utf8'));
+    expect(saved.items.map((item: MemoryVectorDataSerialize) => item[0]).sort()).toEqual(['apple', 'banana', 'cherry']);
+    expect(fs.existsSync(lockPath)).toBe(false);
+
+    writeExternally(['durian']);
+    await store.reload();
+    expect(store.getAll().map((item) => item.content)).toEqual(['durian']);
+    store.clear();
+  });
+
+  it('should reload when watching the stored data', async () => {
+    const watchedPath = path.join(process.cwd(), 'test-shared-store-watched.json');
+    writeExternally(['apple'], watchedPath);
+    const store = memoryVectorStore(vectorParser, { storagePath: watchedPath, autoSave: false, watch: true });
+    expect(store.count()).toBe(1);
+
+    writeExternally(['apple', 'banana'], watchedPath);
+    await vi.waitFor(() => expect(store.count()).toBe(2), { timeout: 2000 });
+    store.clear();
+  });
+});
+
+describe('Append-only log', () => {
+  const storagePath = path.join(process.cwd(), 'test-log-store.json');
+  const logPath = `${storagePath}.log`;
+  const vectorParser = (text: string) => Array.from({ length: 16 }, (_, i) => Math.cos(text.length * i));
+
+  afterEach(() => {
+    for (const file of [storagePath, logPath, `${storagePath}.bak`]) {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    }
+  });
+
+  it('should append changes, replay them and drop torn records', async () => {
+    const store = memoryVectorStore(vectorParser, { storagePath, log: { compactRatio: 100 }, autoSave: false });
+    await store.addMany(['apple', 'banana', 'cherry']);
+    await store.save();
+    // 스냅샷이 없으면 첫 저장은 전체 저장
+    expect(fs.existsSync(logPath)).toBe(false);
+    const snapshotSize = fs.statSync(storagePath).size;
+
+    await store.add('durian');
+    await store.remove('apple');
+    await store.save();
+    expect(fs.statSync(storagePath).size).toBe(snapshotSize);
+    expect(fs.readFileSync(logPath, 'utf8').trim().split('\n')).toHaveLength(2);
+
+    // 쓰기 도중 중단된 마지막 레코드 재현
+    const validLength = fs.statSync(logPath).size;
+    fs.appendFileSync(logPath, '12345 {"op":"clear"');
+
+    const loaded = new NodeStorageProvider().load(storagePath);
+    const contents = (Array.isArray(loaded) ? loaded : loaded.items).map((item) => item[0]);
+    expect(contents.sort()).toEqual(['banana', 'cherry', 'durian']);
+    expect(fs.statSync(logPath).size).toBe(validLength);
+  });
+
+  it('should append the latest state of each changed document once', async () => {
+    // 로그를 사용하지 않으면 저장할 때마다 스냅샷 전체를 다시 씀
+    expect(new NodeStorageProvider().append).toBeUndefined();
+
+    const store = memoryVectorStore(vectorParser, { storagePath, log: { compactRatio: 100 }, autoSave: false });
+    store.clear();
+    await store.addMany(['apple', 'banana']);
+    await store.save();
+
+    await store.add('cherry');
+    await store.remove('cherry');
+    await store.add({ content: 'cherry', metadata: { color: 'red' } });
+    await store.remove('banana');
+    await store.save();
+
+    const records = fs.readFileSync(logPath, 'utf8').trim().split('\n');
+    expect(records).toHaveLength(2);
+    const loaded = new NodeStorageProvider().load(storagePath);
+    const items = Array.isArray(loaded) ? loaded : loaded.items;
+    expect(items.map(([content, , metadata]) => [content, metadata])).toEqual([
+      ['apple', null],
+      ['cherry', { color: 'red' }],
+    ]);
+  });
+
+  it('should append access stats and enforce maxFileSizeMB after appending', async () => {
+    const store = memoryVectorStore(vectorParser, {
+      storagePath,
+      log: { compactRatio: 10000 },
+      maxFileSizeMB: 1,
+      autoSave: false,
+    });
+    store.clear();
+    await store.addMany([
+      { id: 'a', content: 'apple' },
+      { id: 'b', content: 'banana' },
+    ]);
+    await store.save();
+
+    // 조회만 된 문서의 접근 통계도 다음 저장 때 로그에 추가
+    store.get('a');
+    await store.add({ id: 'c', content: 'cherry' });
+    await store.save();
+    expect(fs.readFileSync(logPath, 'utf8').trim().split('\n')).toHaveLength(2);
+    const loaded = new NodeStorageProvider().load(storagePath);
+    const apple = (Array.isArray(loaded) ? loaded : loaded.items).find((item) => item[3] === 'a')!;
+    expect(apple[4]!.hits).toBe(1);
+
+    await store.add({ id: 'big1', content: 'x'.repeat(600 * 1024) });
+    await store.save();
+    expect(fs.existsSync(logPath)).toBe(true);
+
+    // 추가한 뒤 크기를 넘으면 오래된 문서를 제거하며 전체 저장
+    await store.add({ id: 'big2', content: 'y'.repeat(600 * 1024) });
+    await store.save();
+    expect(fs.existsSync(logPath)).toBe(false);
+    expect(fs.statSync(storagePath).size).toBeLessThanOrEqual(1024 * 1024);
+    expect(store.get('big1')).toBeUndefined();
+    expect(store.get('big2')).toBeDefined();
+  });
+
+  it('should compact the log into the snapshot past its threshold', async () => {
+    const store = memoryVectorStore(vectorParser, { storagePath, log: { compactRatio: 0.01 }, autoSave: false });
+    // 전역 캐시에 남은 이전 테스트의 문서 제거
+    store.clear();
+    await store.addMany(['apple', 'banana']);
+    await store.save();
+    await store.add('cherry');
+    await store.save();
+
+    expect(fs.existsSync(logPath)).toBe(false);
+    const saved = JSON.parse(fs.readFileSync(storagePath, 'utf8'));
+    expect(saved.items).toHaveLength(3);
+  });
+});
+
+// IndexedDB처럼 모든 메서드가 Promise를 반환하는 메모리 기반 프로바이더
+class AsyncMemoryStorageProvider implements MemoryVectorStorageProvider {
+  data = new Map<string, MemoryVectorStoreData>();
+
+  async save(key: string, data: MemoryVectorStoreData): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    this.data.set(key, JSON.parse(JSON.stringify(data)));
+  }
+
+  async load(key: string): Promise<MemoryVectorStoreData> {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    return this.data.get(key) ?? [];
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.data.has(key);
+  }
+}
+
+describe('Async storage provider', () => {
+  const vectorParser = (text: string) => [text.length, 1];
+
+  it('should load data asynchronously before searching', async () => {
+    const storageProvider = new AsyncMemoryStorageProvider();
+    const first = memoryVectorStore(vectorParser, { storagePath: 'async-first', storageProvider, autoSave: false });
+    await first.addMany(['apple', 'banana']);
+    await first.save();
+
+    storageProvider.data.set('async-second', storageProvider.data.get('async-first')!);
+    const second = memoryVectorStore(vectorParser, { storagePath: 'async-second', storageProvider });
+
+    // 로딩 중에는 비어 있지만 검색은 로딩이 끝날 때까지 기다림
+    expect(second.count()).toBe(0);
+    const results = await second.similaritySearch('banana', 1);
+    expect(results[0].content).toBe('banana');
+
+    await second.ready();
+    expect(second.count()).toBe(2);
+  });
+
+  it('should not clamp maxFileSizeMB to the localStorage quota for custom providers in the browser', async () => {
+    const storageProvider = new AsyncMemoryStorageProvider();
+    const store = browserMemoryVectorStore(vectorParser, {
+      storagePath: 'async-browser',
+      storageProvider,
+      maxFileSizeMB: 10,
+      eviction: 'none',
+      autoSave: false,
+    });
+    // localStorage 한도인 3MB보다 큰 문서
+    await store.add('x'.repeat(4 * 1024 * 1024));
+    await expect(store.save()).resolves.toBeUndefined();
+    expect(storageProvider.data.has('async-browser')).toBe(true);
+  });
+});